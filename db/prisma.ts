@@ -4,6 +4,7 @@ import { PrismaClient } from "generated/index.js";
 
 import { load } from "@std/dotenv";
 import logger from "@utils/logger.ts";
+import { RetroService } from "./retro.ts";
 import { VotesService } from "./votes.ts";
 import { WorkspaceService } from "./workspace.ts";
 
@@ -15,6 +16,7 @@ export const prisma = new PrismaClient();
 // Create service instances with the Prisma client
 export const votesService = new VotesService(prisma);
 export const workspaceService = new WorkspaceService(prisma);
+export const retroService = new RetroService(prisma);
 
 /**
  * Connects to the database with retry logic for Docker environments
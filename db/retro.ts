@@ -0,0 +1,239 @@
+// @ts-types="generated/index.d.ts"
+import { PrismaClient } from "generated/index.js";
+import { NotFoundError, ValidationError } from "@db/errors.ts";
+
+// Columns of a retro board when the facilitator doesn't name their own
+export const DEFAULT_RETRO_COLUMNS = ["Start", "Stop", "Continue"];
+
+// A retro item as stored, including duplicates grouped with another item
+export interface RetroItemRecord {
+  id: string;
+  column: number;
+  text: string;
+  authorId: string | null;
+  groupedIntoId: string | null;
+}
+
+// An item with the duplicates grouped with it, which becomes one option of the vote
+export interface RetroGroup {
+  id: string;
+  column: number;
+  text: string;
+  option: string; // The vote option, e.g. "Stop: Long meetings"
+  groupedTexts: string[];
+  authorIds: string[];
+}
+
+// Interface for retro session creation parameters
+export interface CreateRetroSessionParams {
+  workspaceId: string;
+  channelId: string;
+  facilitatorId: string;
+  title: string;
+  columns?: string[];
+  isAnonymous?: boolean; // Items are stored without their author
+}
+
+// Settings of the vote on the grouped items
+export interface RetroVoteParams {
+  options: string[];
+  creditsPerUser?: number;
+  endTime?: Date | null;
+}
+
+/**
+ * Lists the items that will be voted on, by column and then in the order they were
+ * added. Duplicates grouped with an item are listed on it, with their authors.
+ */
+export function getRetroGroups(session: {
+  columns: unknown;
+  items: RetroItemRecord[];
+}): RetroGroup[] {
+  const columns = session.columns as string[];
+
+  return session.items
+    .filter((item) => !item.groupedIntoId)
+    .sort((a, b) => a.column - b.column)
+    .map((item) => {
+      const grouped = session.items.filter((other) => other.groupedIntoId === item.id);
+
+      return {
+        id: item.id,
+        column: item.column,
+        text: item.text,
+        option: `${columns[item.column]}: ${item.text}`,
+        groupedTexts: grouped.map((other) => other.text),
+        authorIds: [
+          ...new Set(
+            [item, ...grouped].flatMap((other) => other.authorId ? [other.authorId] : []),
+          ),
+        ],
+      };
+    });
+}
+
+export class RetroService {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient) {
+    this.db = db;
+  }
+
+  // Create a new retro session that collects items
+  async createSession(params: CreateRetroSessionParams) {
+    const {
+      workspaceId,
+      channelId,
+      facilitatorId,
+      title,
+      columns = DEFAULT_RETRO_COLUMNS,
+      isAnonymous = false,
+    } = params;
+
+    return await this.db.retroSession.create({
+      data: {
+        workspaceId,
+        channelId,
+        facilitatorId,
+        title,
+        columns,
+        isAnonymous,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      include: {
+        items: true,
+      },
+    });
+  }
+
+  // Get a retro session with its items by ID or throw if not found
+  async getSessionById(id: string) {
+    try {
+      return await this.db.retroSession.findUniqueOrThrow({
+        where: { id },
+        include: {
+          items: { orderBy: { createdAt: "asc" } },
+        },
+      });
+    } catch (_error) {
+      throw new NotFoundError(`Retro session with ID ${id} not found`);
+    }
+  }
+
+  // Get the retro session a vote was started from, if any
+  async getSessionByVoteId(voteId: string) {
+    return await this.db.retroSession.findUnique({
+      where: { voteId },
+      include: {
+        items: { orderBy: { createdAt: "asc" } },
+      },
+    });
+  }
+
+  // Store where the board message of a session was posted
+  async setSessionMessage(sessionId: string, channelId: string, ts: string) {
+    return await this.db.retroSession.update({
+      where: { id: sessionId },
+      data: {
+        messageChannel: channelId,
+        messageTs: ts,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  // Add an item to a column while the session collects items. Items added to
+  // anonymous sessions are stored without their author.
+  async addItem(sessionId: string, authorId: string, column: number, text: string) {
+    const session = await this.getSessionById(sessionId);
+    if (session.status !== "collecting") {
+      throw new ValidationError("This retro is no longer collecting items.");
+    }
+
+    if (!Number.isInteger(column) || column < 0 || column >= (session.columns as string[]).length) {
+      throw new ValidationError("Pick one of the retro's columns.");
+    }
+
+    return await this.db.retroItem.create({
+      data: {
+        sessionId,
+        column,
+        text,
+        authorId: session.isAnonymous ? null : authorId,
+      },
+    });
+  }
+
+  // Group an item with another item that says the same thing, so they are voted on
+  // together. Items already grouped with it move along to the remaining item.
+  async groupItem(sessionId: string, itemId: string, intoItemId: string) {
+    const target = await this.db.retroItem.findFirst({
+      where: { id: intoItemId, sessionId, groupedIntoId: null },
+    });
+    if (!target || itemId === intoItemId) {
+      throw new ValidationError("An item can only be grouped with another ungrouped item.");
+    }
+
+    await this.db.$transaction([
+      this.db.retroItem.updateMany({
+        where: { id: itemId, sessionId, groupedIntoId: null },
+        data: { groupedIntoId: intoItemId },
+      }),
+      this.db.retroItem.updateMany({
+        where: { sessionId, groupedIntoId: itemId },
+        data: { groupedIntoId: intoItemId },
+      }),
+    ]);
+  }
+
+  // Stop collecting items and create the quadratic vote on the grouped items.
+  // Returns the vote, or null if voting on the session had already started.
+  async startVoting(sessionId: string, params: RetroVoteParams) {
+    const session = await this.getSessionById(sessionId);
+    const now = new Date();
+
+    return await this.db.$transaction(async (tx) => {
+      const { count } = await tx.retroSession.updateMany({
+        where: { id: sessionId, status: "collecting" },
+        data: { status: "voting", updatedAt: now },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const vote = await tx.vote.create({
+        data: {
+          workspaceId: session.workspaceId,
+          channelId: session.channelId,
+          creatorId: session.facilitatorId,
+          title: session.title,
+          description: "Vote on the items of the retro. The top items become its action list.",
+          options: params.options,
+          creditsPerUser: params.creditsPerUser ?? 100,
+          endTime: params.endTime ?? null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await tx.retroSession.update({
+        where: { id: sessionId },
+        data: { voteId: vote.id },
+      });
+
+      return vote;
+    });
+  }
+
+  // Mark the session of an ended vote as ended
+  async markEnded(sessionId: string) {
+    return await this.db.retroSession.update({
+      where: { id: sessionId },
+      data: {
+        status: "ended",
+        updatedAt: new Date(),
+      },
+    });
+  }
+}
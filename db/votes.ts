@@ -1,6 +1,98 @@
 // @ts-types="generated/index.d.ts"
 import { PrismaClient } from "generated/index.js";
-import { NotFoundError } from "@db/errors.ts";
+import { NotFoundError, ValidationError } from "@db/errors.ts";
+import {
+  type BallotResponse,
+  DEFAULT_MECHANISM,
+  findMechanism,
+  getMechanism,
+  type OptionResult,
+  type TalliedOption,
+} from "@mechanisms/index.ts";
+
+// One question of a multi-question vote, answered on the same ballot as the others.
+// A type rather than an interface, so Prisma accepts the questions as a JSON value.
+export type VoteQuestion = {
+  title: string;
+  options: string[];
+  creditsPerUser: number;
+};
+
+// The results of one question, ranked by its vote's mechanism
+export interface QuestionResults extends VoteQuestion {
+  results: OptionResult[];
+}
+
+// A proposed option as stored, including rejected proposals and ones merged into another
+export interface ProposalRecord {
+  id: string;
+  text: string;
+  proposerId: string;
+  status: string;
+  mergedIntoId: string | null;
+}
+
+// A proposal that is still in the running, with everyone who proposed it
+export interface ActiveProposal {
+  id: string;
+  text: string;
+  proposerIds: string[];
+}
+
+/**
+ * Lists the proposals that will become the vote's options when they are locked, in
+ * the order they were proposed. The proposers of merged proposals are credited on the
+ * proposal they were merged into.
+ */
+export function getActiveProposals(proposals: ProposalRecord[]): ActiveProposal[] {
+  return proposals
+    .filter((proposal) => proposal.status === "proposed")
+    .map((proposal) => ({
+      id: proposal.id,
+      text: proposal.text,
+      proposerIds: [
+        ...new Set([
+          proposal.proposerId,
+          ...proposals
+            .filter((merged) => merged.mergedIntoId === proposal.id)
+            .map((merged) => merged.proposerId),
+        ]),
+      ],
+    }));
+}
+
+// Who can see how each voter filled in their ballot: nobody, only the vote's creator,
+// or everyone who can see the results
+export type BallotVisibility = "anonymous" | "creator" | "public";
+
+export const BALLOT_VISIBILITIES: BallotVisibility[] = ["anonymous", "creator", "public"];
+
+// Who can see the results while the vote is open: nobody until it ends, only the
+// vote's creator, or everyone. Everyone can see the results of an ended vote.
+export type ResultsVisibility = "hidden" | "creator" | "everyone";
+
+export const RESULTS_VISIBILITIES: ResultsVisibility[] = ["hidden", "creator", "everyone"];
+
+/**
+ * Gets who can see the results of a vote while it is open. Voting modes that hide their
+ * results until the end, like planning poker, always hide them.
+ */
+export function getResultsVisibility(
+  vote: { mechanism?: string | null; resultsVisibility?: string },
+): ResultsVisibility {
+  if (findMechanism(vote.mechanism)?.hidesLiveResults) {
+    return "hidden";
+  }
+
+  return (vote.resultsVisibility ?? "creator") as ResultsVisibility;
+}
+
+// One voter's ballot for one question, with what they gave each option by option index
+export interface VoterBallot {
+  userId: string;
+  questionIndex: number;
+  credits: number[];
+}
 
 // Interface for vote creation parameters
 export interface CreateVoteParams {
@@ -12,7 +104,78 @@ export interface CreateVoteParams {
   options: string[];
   allowedVoters?: string[] | null; // List of user IDs allowed to vote (null means everyone can vote)
   creditsPerUser?: number;
+  mechanism?: string; // ID of the voting mechanism (defaults to quadratic voting)
+  allowOpposition?: boolean; // Voters can also cast votes against options
+  budget?: number | null; // Total budget to fund options from, for participatory budgeting
+  optionCosts?: number[] | null; // Cost of each option, for participatory budgeting
+  round?: number; // Planning poker: the round of estimates, starting at 1
+  questions?: VoteQuestion[] | null; // All questions of a multi-question vote (null for one question)
+  isNominating?: boolean; // Channel members propose options before voting, starting from the given options
+  startTime?: Date | null; // When voting opens (null means immediately)
   endTime?: Date | null;
+  broadcastResults?: boolean; // Also send the results thread reply to the channel
+  ballotVisibility?: BallotVisibility; // Who can see each voter's ballot (defaults to anonymous)
+  resultsVisibility?: ResultsVisibility; // Who can see live results (defaults to the creator)
+}
+
+// Filters for listing a channel's votes
+export type VoteListFilter = "all" | "open" | "ended" | "mine";
+
+// Interface for vote listing parameters
+export interface ListChannelVotesParams {
+  workspaceId: string;
+  channelId: string;
+  filter?: VoteListFilter;
+  userId?: string; // Required for the "mine" filter
+  page?: number; // Zero-based page index
+  pageSize?: number;
+}
+
+/**
+ * Lists the questions of a vote. A single-question vote is its own question, and the
+ * first question of a multi-question vote is also stored in its options and credits.
+ */
+export function getVoteQuestions(vote: {
+  title: string;
+  options: unknown;
+  creditsPerUser: number;
+  questions?: unknown;
+}): VoteQuestion[] {
+  if (Array.isArray(vote.questions) && vote.questions.length > 0) {
+    return vote.questions as VoteQuestion[];
+  }
+
+  return [{
+    title: vote.title,
+    options: vote.options as string[],
+    creditsPerUser: vote.creditsPerUser,
+  }];
+}
+
+// Votes are sums of square roots, so allow for rounding when comparing them
+const isTied = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+// Order tallied options by votes, highest first, and add each option's rank and
+// number of voters. Tied options share a rank (1, 2, 2, 4) and keep their option order.
+function rankResults(tallied: TalliedOption[], responses: BallotResponse[]): OptionResult[] {
+  const results = tallied.map((result, index) => ({
+    ...result,
+    voters: new Set(
+      responses
+        .filter((response) => response.optionIndex === index && response.credits !== 0)
+        .map((response) => response.userId),
+    ).size,
+    rank: 0,
+  }));
+
+  results.sort((a, b) => isTied(a.votes, b.votes) ? 0 : b.votes - a.votes);
+
+  results.forEach((result, index) => {
+    const previous = results[index - 1];
+    result.rank = previous && isTied(previous.votes, result.votes) ? previous.rank : index + 1;
+  });
+
+  return results;
 }
 
 export class VotesService {
@@ -33,10 +196,22 @@ export class VotesService {
       options,
       allowedVoters = null,
       creditsPerUser = 100,
+      mechanism = DEFAULT_MECHANISM,
+      allowOpposition = false,
+      budget = null,
+      optionCosts = null,
+      round = 1,
+      questions = null,
+      isNominating = false,
+      startTime = null,
       endTime = null,
+      broadcastResults = false,
+      ballotVisibility = "anonymous",
+      resultsVisibility = "creator",
     } = params;
 
     const now = new Date();
+    const opensLater = startTime !== null && startTime > now;
 
     const result = await this.db.vote.create({
       data: {
@@ -48,9 +223,28 @@ export class VotesService {
         options: options, // Prisma will serialize this to JSON
         allowedVoters: allowedVoters === null ? { setValue: null } : allowedVoters, // Handle null value differently for Prisma
         creditsPerUser,
+        mechanism,
+        allowOpposition,
+        budget,
+        optionCosts: optionCosts === null ? { setValue: null } : optionCosts,
+        round,
+        questions: questions === null ? { setValue: null } : questions,
+        startTime: startTime ?? now,
         endTime,
+        isStarted: !opensLater,
+        isNominating,
+        broadcastResults,
+        ballotVisibility,
+        resultsVisibility: getResultsVisibility({ mechanism, resultsVisibility }),
         createdAt: now,
         updatedAt: now,
+        // The creator's options are the first proposals
+        ...(isNominating
+          ? { proposals: { create: options.map((text) => ({ text, proposerId: creatorId })) } }
+          : {}),
+      },
+      include: {
+        proposals: { orderBy: { createdAt: "asc" } },
       },
     });
 
@@ -64,6 +258,7 @@ export class VotesService {
         where: { id },
         include: {
           responses: true,
+          proposals: { orderBy: { createdAt: "asc" } },
         },
       });
     } catch (_error) {
@@ -90,20 +285,67 @@ export class VotesService {
     });
   }
 
-  // Record a user's vote
+  // Get one page of a channel's votes (newest first) with the number of
+  // distinct participants in each, plus the total number of matching votes
+  async listChannelVotes(params: ListChannelVotesParams) {
+    const {
+      workspaceId,
+      channelId,
+      filter = "all",
+      userId,
+      page = 0,
+      pageSize = 5,
+    } = params;
+
+    const where = {
+      workspaceId,
+      channelId,
+      ...(filter === "open" ? { isEnded: false } : {}),
+      ...(filter === "ended" ? { isEnded: true } : {}),
+      ...(filter === "mine" ? { creatorId: userId } : {}),
+    };
+
+    const total = await this.db.vote.count({ where });
+    const votes = await this.db.vote.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: page * pageSize,
+      take: pageSize,
+    });
+
+    // One row per (vote, user) pair, so each row is one participant
+    const participants = await this.db.voteResponse.groupBy({
+      by: ["voteId", "userId"],
+      where: {
+        voteId: { in: votes.map((vote) => vote.id) },
+      },
+    });
+
+    return {
+      votes: votes.map((vote) => ({
+        ...vote,
+        participantCount: participants.filter((p) => p.voteId === vote.id).length,
+      })),
+      total,
+    };
+  }
+
+  // Record a user's vote. Votes against an option are stored as negative credits.
   async recordVoteResponse(
     voteId: string,
     userId: string,
     optionIndex: number,
     credits: number,
+    questionIndex: number = 0,
   ) {
     const now = new Date();
 
     return await this.db.voteResponse.upsert({
       where: {
-        voteId_userId_optionIndex: {
+        voteId_userId_questionIndex_optionIndex: {
           voteId,
           userId,
+          questionIndex,
           optionIndex,
         },
       },
@@ -114,6 +356,7 @@ export class VotesService {
       create: {
         voteId,
         userId,
+        questionIndex,
         optionIndex,
         credits,
         createdAt: now,
@@ -122,13 +365,26 @@ export class VotesService {
     });
   }
 
-  // Get vote results
-  async getVoteResults(voteId: string) {
+  // Store where the vote message was posted so it can be updated later
+  async setVoteMessage(voteId: string, channelId: string, ts: string) {
+    return await this.db.vote.update({
+      where: { id: voteId },
+      data: {
+        messageChannel: channelId,
+        messageTs: ts,
+      },
+    });
+  }
+
+  // Get vote results. Pass the viewer when only they will see the results, so the
+  // creator of a vote with creator-only ballots sees who voted what.
+  async getVoteResults(voteId: string, viewerId?: string) {
     const vote = await this.db.vote.findUnique({
       where: { id: voteId },
       include: {
         responses: {
           select: {
+            questionIndex: true,
             optionIndex: true,
             credits: true,
             userId: true,
@@ -141,42 +397,75 @@ export class VotesService {
       throw new NotFoundError("Vote not found");
     }
 
-    const options = vote.options as string[];
+    // The vote's mechanism decides how the responses to each question are counted
+    const mechanism = getMechanism(vote.mechanism);
+    const questions: QuestionResults[] = getVoteQuestions(vote).map((question, questionIndex) => {
+      const responses = vote.responses.filter((response) =>
+        response.questionIndex === questionIndex
+      );
+      const tallied = mechanism.tally(
+        {
+          options: question.options,
+          allowOpposition: vote.allowOpposition,
+          budget: vote.budget,
+          optionCosts: vote.optionCosts as number[] | null,
+        },
+        responses,
+      );
 
-    // Use Prisma's groupBy to aggregate vote responses by option
-    const responseAggregations = await this.db.voteResponse.groupBy({
-      by: ["optionIndex"],
-      where: {
-        voteId: voteId,
-      },
-      _sum: {
-        credits: true,
-      },
-      _count: {
-        userId: true,
-      },
+      return { ...question, results: rankResults(tallied, responses) };
     });
 
-    // Create results array with all options (even those with no votes)
-    const results = options.map((option, index) => {
-      const aggregation = responseAggregations.find((r) => r.optionIndex === index);
-
-      return {
-        option: option,
-        totalCredits: aggregation?._sum.credits || 0,
-        votes: aggregation?._count.userId || 0,
-      };
-    });
+    // Results only name voters, e.g. planning poker outliers, when whoever sees them
+    // may see the ballots: everyone for public ballots, the creator for creator-only ones
+    const namesVoters = vote.ballotVisibility === "public" ||
+      (vote.ballotVisibility === "creator" && viewerId === vote.creatorId);
+    if (!namesVoters) {
+      questions.forEach((question) => question.results.forEach((result) => delete result.voterIds));
+    }
 
-    // Sort by total credits descending
-    results.sort((a, b) => b.totalCredits - a.totalCredits);
+    // The responses are left out, so results never carry who voted for what.
+    // Ballots are only read with getVoterBallots, which respects the vote's visibility.
+    const { responses: _responses, ...resultsVote } = vote;
 
+    // The results of the first question, the only one for single-question votes
     return {
-      vote,
-      results,
+      vote: resultsVote,
+      results: questions[0].results,
+      questions,
     };
   }
 
+  // Get each voter's ballot for every question of a vote, for votes whose ballots
+  // aren't anonymous. Who may see them is decided by the caller, from the visibility.
+  async getVoterBallots(voteId: string): Promise<VoterBallot[]> {
+    const vote = await this.getVoteById(voteId);
+    if (vote.ballotVisibility === "anonymous") {
+      throw new ValidationError("The ballots of this vote are anonymous.");
+    }
+
+    const questions = getVoteQuestions(vote);
+    const ballots = new Map<string, VoterBallot>();
+
+    for (const response of vote.responses) {
+      if (response.credits === 0) {
+        continue;
+      }
+
+      const key = `${response.userId}:${response.questionIndex}`;
+      if (!ballots.has(key)) {
+        ballots.set(key, {
+          userId: response.userId,
+          questionIndex: response.questionIndex,
+          credits: questions[response.questionIndex].options.map(() => 0),
+        });
+      }
+      ballots.get(key)!.credits[response.optionIndex] = response.credits;
+    }
+
+    return [...ballots.values()];
+  }
+
   // End a vote (set isEnded to true)
   async endVote(voteId: string) {
     return await this.db.vote.update({
@@ -187,4 +476,245 @@ export class VotesService {
       },
     });
   }
+
+  // Reopen an ended vote. An end time that has already passed is cleared,
+  // otherwise the scheduler would close the vote again straight away.
+  // Rounds that a new round was started from stay ended, so only one round is open.
+  async reopenVote(voteId: string) {
+    const vote = await this.getVoteById(voteId);
+    if (vote.nextRoundId) {
+      throw new ValidationError("A new round of this vote has already been started.");
+    }
+    const now = new Date();
+
+    return await this.db.vote.update({
+      where: { id: voteId, nextRoundId: null },
+      data: {
+        isEnded: false,
+        endTime: vote.endTime && vote.endTime <= now ? null : vote.endTime,
+        updatedAt: now,
+      },
+    });
+  }
+
+  // Start another round of an ended vote, as a new open vote with the same settings.
+  // Used by planning poker to estimate again after discussing the revealed estimates.
+  // Returns null if a round was already started from this vote, so clicking Re-vote twice
+  // or two people clicking it at once never starts two rounds.
+  async startNextRound(voteId: string) {
+    const vote = await this.getVoteById(voteId);
+    if (vote.nextRoundId) {
+      return null;
+    }
+
+    const nextRound = await this.createVote({
+      workspaceId: vote.workspaceId,
+      channelId: vote.channelId,
+      creatorId: vote.creatorId,
+      title: vote.title,
+      description: vote.description ?? undefined,
+      options: vote.options as string[],
+      allowedVoters: vote.allowedVoters as string[] | null,
+      creditsPerUser: vote.creditsPerUser,
+      mechanism: vote.mechanism,
+      allowOpposition: vote.allowOpposition,
+      budget: vote.budget,
+      optionCosts: vote.optionCosts as number[] | null,
+      round: vote.round + 1,
+      questions: vote.questions as VoteQuestion[] | null,
+      broadcastResults: vote.broadcastResults,
+      ballotVisibility: vote.ballotVisibility as BallotVisibility,
+      resultsVisibility: vote.resultsVisibility as ResultsVisibility,
+    });
+
+    // Record the new round, unless another call recorded its own round first
+    const { count } = await this.db.vote.updateMany({
+      where: { id: voteId, nextRoundId: null },
+      data: {
+        nextRoundId: nextRound.id,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      await this.db.vote.delete({ where: { id: nextRound.id } });
+      return null;
+    }
+
+    return nextRound;
+  }
+
+  // End a vote only if it is still open.
+  // Returns true if this call ended the vote, false if it was already ended,
+  // so concurrent callers (e.g. several app instances) never close it twice.
+  async endVoteIfOpen(voteId: string): Promise<boolean> {
+    const { count } = await this.db.vote.updateMany({
+      where: { id: voteId, isEnded: false },
+      data: {
+        isEnded: true,
+        updatedAt: new Date(),
+      },
+    });
+
+    return count > 0;
+  }
+
+  // Add an option proposed by a channel member while the vote takes proposals
+  async proposeOption(voteId: string, proposerId: string, text: string) {
+    const vote = await this.getVoteById(voteId);
+    if (!vote.isNominating) {
+      throw new ValidationError("The options of this vote are already locked.");
+    }
+
+    const duplicate = getActiveProposals(vote.proposals).find((proposal) =>
+      proposal.text.toLowerCase() === text.toLowerCase()
+    );
+    if (duplicate) {
+      throw new ValidationError(`"${duplicate.text}" has already been proposed.`);
+    }
+
+    return await this.db.proposedOption.create({
+      data: { voteId, proposerId, text },
+    });
+  }
+
+  // Reject a proposal, so it won't be one of the vote's options
+  async rejectProposal(voteId: string, proposalId: string) {
+    await this.db.proposedOption.updateMany({
+      where: { id: proposalId, voteId, status: "proposed" },
+      data: { status: "rejected" },
+    });
+  }
+
+  // Merge a proposal into another one that proposes the same thing. Proposals already
+  // merged into it move along, so every proposer is credited on the remaining proposal.
+  async mergeProposal(voteId: string, proposalId: string, intoProposalId: string) {
+    const target = await this.db.proposedOption.findFirst({
+      where: { id: intoProposalId, voteId, status: "proposed" },
+    });
+    if (!target || proposalId === intoProposalId) {
+      throw new ValidationError("A proposal can only be merged into another open proposal.");
+    }
+
+    await this.db.$transaction([
+      this.db.proposedOption.updateMany({
+        where: { id: proposalId, voteId, status: "proposed" },
+        data: { status: "merged", mergedIntoId: intoProposalId },
+      }),
+      this.db.proposedOption.updateMany({
+        where: { voteId, mergedIntoId: proposalId },
+        data: { mergedIntoId: intoProposalId },
+      }),
+    ]);
+  }
+
+  // Lock the options of a vote that takes proposals, which opens voting. An end time
+  // that passed while taking proposals is cleared, as with reopened votes.
+  // Returns true if this call locked the options, false if they were already locked.
+  async lockOptions(voteId: string, options: string[]): Promise<boolean> {
+    const vote = await this.getVoteById(voteId);
+    const now = new Date();
+
+    const { count } = await this.db.vote.updateMany({
+      where: { id: voteId, isNominating: true },
+      data: {
+        options,
+        isNominating: false,
+        endTime: vote.endTime && vote.endTime <= now ? null : vote.endTime,
+        updatedAt: now,
+      },
+    });
+
+    return count > 0;
+  }
+
+  // Mark a scheduled vote as started.
+  // Returns true if this call started the vote, false if it was already started.
+  async markVoteStarted(voteId: string): Promise<boolean> {
+    const { count } = await this.db.vote.updateMany({
+      where: { id: voteId, isStarted: false },
+      data: {
+        isStarted: true,
+        updatedAt: new Date(),
+      },
+    });
+
+    return count > 0;
+  }
+
+  // Get all scheduled votes whose start time has arrived
+  async getVotesDueToStart(now: Date = new Date()) {
+    return await this.db.vote.findMany({
+      where: {
+        isStarted: false,
+        isEnded: false,
+        isNominating: false,
+        startTime: { lte: now },
+      },
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  // Record that a reminder was sent to a user.
+  // Returns false if that reminder was already recorded, so no one is reminded twice
+  // even when several app instances send reminders at the same time.
+  async claimReminder(voteId: string, userId: string, key: string): Promise<boolean> {
+    try {
+      await this.db.voteReminder.create({
+        data: { voteId, userId, key },
+      });
+      return true;
+    } catch (error) {
+      // Unique constraint violation: the reminder was already sent
+      if ((error as { code?: string }).code === "P2002") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Forget a claimed reminder whose message couldn't be sent, so it is tried again
+  async releaseReminder(voteId: string, userId: string, key: string): Promise<void> {
+    await this.db.voteReminder.deleteMany({
+      where: { voteId, userId, key },
+    });
+  }
+
+  // Get the users who were already sent a reminder
+  async getRemindedUserIds(voteId: string, key: string): Promise<string[]> {
+    const reminders = await this.db.voteReminder.findMany({
+      where: { voteId, key },
+      select: { userId: true },
+    });
+
+    return reminders.map((reminder) => reminder.userId);
+  }
+
+  // Get all open votes whose end time falls after `from` and at or before `to`
+  async getVotesEndingBetween(from: Date, to: Date) {
+    return await this.db.vote.findMany({
+      where: {
+        isEnded: false,
+        isStarted: true,
+        isNominating: false,
+        endTime: { gt: from, lte: to },
+      },
+      include: {
+        responses: true,
+      },
+      orderBy: { endTime: "asc" },
+    });
+  }
+
+  // Get all open votes whose end time has passed, except votes still taking proposals
+  async getExpiredVotes(now: Date = new Date()) {
+    return await this.db.vote.findMany({
+      where: {
+        isEnded: false,
+        isNominating: false,
+        endTime: { lte: now },
+      },
+      orderBy: { endTime: "asc" },
+    });
+  }
 }
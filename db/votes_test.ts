@@ -1,8 +1,9 @@
 import { assertEquals, assertRejects } from "@std/assert";
-import { VotesService } from "./votes.ts";
+import { getActiveProposals, VotesService } from "./votes.ts";
+import { getMechanism } from "@mechanisms/index.ts";
 // @ts-types="generated/index.d.ts"
 import { PrismaClient } from "generated/index.js";
-import { NotFoundError } from "@db/errors.ts";
+import { NotFoundError, ValidationError } from "@db/errors.ts";
 import { afterAll, beforeAll, describe, it } from "jsr:@std/testing/bdd";
 
 describe(
@@ -130,9 +131,141 @@ describe(
       assertEquals(optionB?.totalCredits, 25);
       assertEquals(optionC?.totalCredits, 0);
 
+      // Votes are summed per ballot: √16 + √9 = 7 for A, √25 = 5 for B
+      assertEquals(optionA?.votes, 7);
+      assertEquals(optionB?.votes, 5);
+      assertEquals(optionA?.voters, 2);
+      assertEquals(optionB?.voters, 1);
+
+      assertEquals(result.results.map((r) => r.option), ["Option A", "Option B", "Option C"]);
+      assertEquals(result.results.map((r) => r.rank), [1, 2, 3]);
       assertEquals(result.results[2].totalCredits, 0);
     });
 
+    it("only reads the ballots of votes that aren't anonymous", async () => {
+      const createPokerVote = (ballotVisibility: "anonymous" | "public") =>
+        votesService.createVote({
+          workspaceId: testWorkspaceId,
+          channelId: testChannelId,
+          creatorId: testUserId1,
+          title: "Estimate",
+          options: ["1", "2", "3"],
+          mechanism: "poker",
+          ballotVisibility,
+        });
+
+      const anonymousVote = await createPokerVote("anonymous");
+      await votesService.recordVoteResponse(anonymousVote.id, testUserId2, 1, 1);
+
+      // Neither the results nor the vote returned with them name the voters
+      const anonymousResults = await votesService.getVoteResults(anonymousVote.id);
+      assertEquals(anonymousResults.results[0].voterIds, undefined);
+      assertEquals("responses" in anonymousResults.vote, false);
+      await assertRejects(
+        () => votesService.getVoterBallots(anonymousVote.id),
+        ValidationError,
+      );
+
+      const publicVote = await createPokerVote("public");
+      await votesService.recordVoteResponse(publicVote.id, testUserId2, 1, 1);
+
+      const publicResults = await votesService.getVoteResults(publicVote.id);
+      assertEquals(publicResults.results[0].voterIds, [testUserId2]);
+      assertEquals(await votesService.getVoterBallots(publicVote.id), [
+        { userId: testUserId2, questionIndex: 0, credits: [0, 1, 0] },
+      ]);
+    });
+
+    it("only names voters in creator-only results shown to the creator", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Estimate",
+        options: ["1", "2", "3", "5", "8"],
+        mechanism: "poker",
+        ballotVisibility: "creator",
+      });
+      // Three voters pick 5 and one picks 1, an outlier
+      for (const userId of ["U00000001", "U00000002", "U00000003"]) {
+        await votesService.recordVoteResponse(vote.id, userId, 3, 1);
+      }
+      await votesService.recordVoteResponse(vote.id, testUserId2, 0, 1);
+
+      // Results the channel or another voter sees never name the outlier
+      for (const viewerId of [undefined, testUserId2]) {
+        const { vote: resultsVote, results } = await votesService.getVoteResults(
+          vote.id,
+          viewerId,
+        );
+        assertEquals(results.every((result) => result.voterIds === undefined), true);
+        const text = JSON.stringify(
+          getMechanism("poker").createResultsBlocks(resultsVote, results),
+        );
+        assertEquals(text.includes("<@"), false);
+      }
+
+      const creatorResults = await votesService.getVoteResults(vote.id, testUserId1);
+      assertEquals(
+        creatorResults.results.find((result) => result.option === "1")?.voterIds,
+        [testUserId2],
+      );
+    });
+
+    it("getVoteResults gives tied options the same rank", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Tied Results Test",
+        options: ["Option A", "Option B", "Option C"],
+      });
+
+      await votesService.recordVoteResponse(vote.id, testUserId1, 1, 9);
+      await votesService.recordVoteResponse(vote.id, testUserId2, 2, 9);
+      await votesService.recordVoteResponse(vote.id, testUserId2, 0, 0);
+
+      const result = await votesService.getVoteResults(vote.id);
+
+      // Tied options keep their option order
+      assertEquals(result.results.map((r) => r.option), ["Option B", "Option C", "Option A"]);
+      assertEquals(result.results.map((r) => r.rank), [1, 1, 3]);
+
+      // A ballot with no credits on an option doesn't count as a voter for it
+      assertEquals(result.results[2].voters, 0);
+    });
+
+    it("getVoteResults ranks the responses to each question separately", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Offsite",
+        options: ["Lisbon", "Berlin"],
+        questions: [
+          { title: "Where?", options: ["Lisbon", "Berlin"], creditsPerUser: 100 },
+          { title: "When?", options: ["May", "June"], creditsPerUser: 25 },
+        ],
+      });
+
+      // The same option index is a different option in each question
+      await votesService.recordVoteResponse(vote.id, testUserId1, 0, 16);
+      await votesService.recordVoteResponse(vote.id, testUserId1, 1, 9, 1);
+      await votesService.recordVoteResponse(vote.id, testUserId1, 0, 4, 1);
+
+      const result = await votesService.getVoteResults(vote.id);
+
+      assertEquals(result.questions.map((q) => q.title), ["Where?", "When?"]);
+      assertEquals(result.questions[1].creditsPerUser, 25);
+      assertEquals(result.questions[1].results.map((r) => [r.option, r.votes]), [
+        ["June", 3],
+        ["May", 2],
+      ]);
+      // The vote's own results are those of the first question
+      assertEquals(result.results, result.questions[0].results);
+      assertEquals(result.results.map((r) => [r.option, r.votes]), [["Lisbon", 4], ["Berlin", 0]]);
+    });
+
     it("recordVoteResponse stores user votes correctly", async () => {
       const vote = await votesService.createVote({
         workspaceId: testWorkspaceId,
@@ -162,5 +295,308 @@ describe(
 
       assertEquals(response?.credits, 36);
     });
+
+    it("endVoteIfOpen only ends a vote once", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Vote to End Once",
+        options: ["Option 1", "Option 2"],
+      });
+
+      assertEquals(await votesService.endVoteIfOpen(vote.id), true);
+      assertEquals(await votesService.endVoteIfOpen(vote.id), false);
+
+      const updatedVote = await votesService.getVoteById(vote.id);
+      assertEquals(updatedVote.isEnded, true);
+    });
+
+    it("getExpiredVotes returns only open votes past their end time", async () => {
+      const now = new Date();
+
+      const expiredVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Expired Vote",
+        options: ["Option 1", "Option 2"],
+        endTime: new Date(now.getTime() - 60 * 1000),
+      });
+
+      const futureVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Future Vote",
+        options: ["Option 1", "Option 2"],
+        endTime: new Date(now.getTime() + 60 * 60 * 1000),
+      });
+
+      const endedVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Already Ended Vote",
+        options: ["Option 1", "Option 2"],
+        endTime: new Date(now.getTime() - 60 * 1000),
+      });
+      await votesService.endVote(endedVote.id);
+
+      const expiredIds = (await votesService.getExpiredVotes(now)).map((v) => v.id);
+
+      assertEquals(expiredIds.includes(expiredVote.id), true);
+      assertEquals(expiredIds.includes(futureVote.id), false);
+      assertEquals(expiredIds.includes(endedVote.id), false);
+    });
+
+    it("createVote with a future startTime creates a scheduled vote", async () => {
+      const startTime = new Date(Date.now() + 60 * 60 * 1000);
+
+      const scheduledVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Scheduled Vote",
+        options: ["Option 1", "Option 2"],
+        startTime,
+      });
+
+      assertEquals(scheduledVote.isStarted, false);
+      assertEquals(scheduledVote.startTime.getTime(), startTime.getTime());
+
+      const immediateVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Immediate Vote",
+        options: ["Option 1", "Option 2"],
+      });
+
+      assertEquals(immediateVote.isStarted, true);
+    });
+
+    it("getVotesDueToStart and markVoteStarted open scheduled votes once", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Vote Opening Soon",
+        options: ["Option 1", "Option 2"],
+        startTime: new Date(Date.now() + 60 * 1000),
+      });
+
+      // Not due yet
+      const dueNow = await votesService.getVotesDueToStart(new Date());
+      assertEquals(dueNow.some((v) => v.id === vote.id), false);
+
+      // Due once the start time has passed
+      const dueLater = await votesService.getVotesDueToStart(
+        new Date(Date.now() + 2 * 60 * 1000),
+      );
+      assertEquals(dueLater.some((v) => v.id === vote.id), true);
+
+      assertEquals(await votesService.markVoteStarted(vote.id), true);
+      assertEquals(await votesService.markVoteStarted(vote.id), false);
+    });
+
+    it("listChannelVotes filters, paginates and counts participants", async () => {
+      const listChannelId = "C-list";
+      const createListVote = (title: string, creatorId: string) =>
+        votesService.createVote({
+          workspaceId: testWorkspaceId,
+          channelId: listChannelId,
+          creatorId,
+          title,
+          options: ["Option 1", "Option 2"],
+        });
+
+      const first = await createListVote("First", testUserId1);
+      const second = await createListVote("Second", testUserId2);
+      const third = await createListVote("Third", testUserId1);
+      await votesService.endVote(first.id);
+
+      // Two users vote on the second vote, one of them on two options
+      await votesService.recordVoteResponse(second.id, testUserId1, 0, 4);
+      await votesService.recordVoteResponse(second.id, testUserId1, 1, 9);
+      await votesService.recordVoteResponse(second.id, testUserId2, 0, 16);
+
+      const firstPage = await votesService.listChannelVotes({
+        workspaceId: testWorkspaceId,
+        channelId: listChannelId,
+        pageSize: 2,
+      });
+      assertEquals(firstPage.total, 3);
+      assertEquals(firstPage.votes.map((v) => v.id), [third.id, second.id]);
+      assertEquals(firstPage.votes.map((v) => v.participantCount), [0, 2]);
+
+      const secondPage = await votesService.listChannelVotes({
+        workspaceId: testWorkspaceId,
+        channelId: listChannelId,
+        pageSize: 2,
+        page: 1,
+      });
+      assertEquals(secondPage.votes.map((v) => v.id), [first.id]);
+
+      const open = await votesService.listChannelVotes({
+        workspaceId: testWorkspaceId,
+        channelId: listChannelId,
+        filter: "open",
+      });
+      assertEquals(open.total, 2);
+
+      const ended = await votesService.listChannelVotes({
+        workspaceId: testWorkspaceId,
+        channelId: listChannelId,
+        filter: "ended",
+      });
+      assertEquals(ended.votes.map((v) => v.id), [first.id]);
+
+      const mine = await votesService.listChannelVotes({
+        workspaceId: testWorkspaceId,
+        channelId: listChannelId,
+        filter: "mine",
+        userId: testUserId2,
+      });
+      assertEquals(mine.votes.map((v) => v.id), [second.id]);
+    });
+
+    it("reopenVote reopens an ended vote and clears a past end time", async () => {
+      const pastVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Past Deadline",
+        options: ["Option 1", "Option 2"],
+        endTime: new Date(Date.now() - 60 * 1000),
+      });
+      await votesService.endVote(pastVote.id);
+
+      const reopened = await votesService.reopenVote(pastVote.id);
+      assertEquals(reopened.isEnded, false);
+      assertEquals(reopened.endTime, null);
+
+      // A future end time is kept
+      const futureEndTime = new Date(Date.now() + 60 * 60 * 1000);
+      const futureVote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Future Deadline",
+        options: ["Option 1", "Option 2"],
+        endTime: futureEndTime,
+      });
+      await votesService.endVote(futureVote.id);
+
+      const reopenedFuture = await votesService.reopenVote(futureVote.id);
+      assertEquals(reopenedFuture.isEnded, false);
+      assertEquals(reopenedFuture.endTime?.getTime(), futureEndTime.getTime());
+    });
+
+    it("startNextRound copies an ended vote into a new round", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Login page",
+        options: ["XS", "S", "M", "L", "XL"],
+        mechanism: "poker",
+        allowedVoters: [testUserId1, testUserId2],
+      });
+      await votesService.endVote(vote.id);
+
+      const nextRound = (await votesService.startNextRound(vote.id))!;
+      assertEquals(nextRound.id !== vote.id, true);
+
+      // The round that was re-voted can't be reopened alongside the new round
+      await assertRejects(() => votesService.reopenVote(vote.id), ValidationError);
+      assertEquals(nextRound.round, 2);
+      assertEquals(nextRound.isEnded, false);
+      assertEquals(nextRound.title, "Login page");
+      assertEquals(nextRound.mechanism, "poker");
+      assertEquals(nextRound.options, ["XS", "S", "M", "L", "XL"]);
+      assertEquals(nextRound.allowedVoters, [testUserId1, testUserId2]);
+
+      // Planning poker estimates stay hidden until they are revealed
+      assertEquals(vote.resultsVisibility, "hidden");
+
+      // Only one round is started from each vote
+      assertEquals(await votesService.startNextRound(vote.id), null);
+      assertEquals((await votesService.getVoteById(vote.id)).nextRoundId, nextRound.id);
+    });
+
+    it("takes proposed options until they are locked", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Team lunch",
+        options: ["Pizza"],
+        isNominating: true,
+        endTime: new Date(Date.now() - 60_000),
+      });
+      assertEquals(vote.proposals.map((p) => [p.text, p.proposerId]), [["Pizza", testUserId1]]);
+
+      const pizzeria = await votesService.proposeOption(vote.id, testUserId2, "Pizzeria");
+      const sushi = await votesService.proposeOption(vote.id, testUserId2, "Sushi");
+      const nothing = await votesService.proposeOption(vote.id, "U99999999", "Nothing");
+      await assertRejects(
+        () => votesService.proposeOption(vote.id, "U99999999", "pizza"),
+        ValidationError,
+        "already been proposed",
+      );
+
+      // Votes taking proposals don't expire until their options are locked
+      const expired = await votesService.getExpiredVotes();
+      assertEquals(expired.some((v) => v.id === vote.id), false);
+
+      await votesService.mergeProposal(vote.id, pizzeria.id, vote.proposals[0].id);
+      await votesService.rejectProposal(vote.id, nothing.id);
+      await assertRejects(
+        () => votesService.mergeProposal(vote.id, sushi.id, nothing.id),
+        ValidationError,
+      );
+
+      const { proposals } = await votesService.getVoteById(vote.id);
+      assertEquals(getActiveProposals(proposals), [
+        { id: vote.proposals[0].id, text: "Pizza", proposerIds: [testUserId1, testUserId2] },
+        { id: sushi.id, text: "Sushi", proposerIds: [testUserId2] },
+      ]);
+
+      assertEquals(await votesService.lockOptions(vote.id, ["Pizza", "Sushi"]), true);
+      assertEquals(await votesService.lockOptions(vote.id, ["Pizza"]), false);
+
+      // The end time passed while taking proposals, so it's cleared
+      const locked = await votesService.getVoteById(vote.id);
+      assertEquals(locked.isNominating, false);
+      assertEquals(locked.options, ["Pizza", "Sushi"]);
+      assertEquals(locked.endTime, null);
+      await assertRejects(
+        () => votesService.proposeOption(vote.id, testUserId2, "Tacos"),
+        ValidationError,
+      );
+    });
+
+    it("claimReminder records each reminder only once", async () => {
+      const vote = await votesService.createVote({
+        workspaceId: testWorkspaceId,
+        channelId: testChannelId,
+        creatorId: testUserId1,
+        title: "Reminder Vote",
+        options: ["Option 1", "Option 2"],
+        allowedVoters: [testUserId1, testUserId2],
+      });
+
+      assertEquals(await votesService.claimReminder(vote.id, testUserId2, "manual"), true);
+      assertEquals(await votesService.claimReminder(vote.id, testUserId2, "manual"), false);
+      assertEquals(await votesService.claimReminder(vote.id, testUserId2, "auto_60m"), true);
+
+      // A released reminder can be claimed again
+      await votesService.releaseReminder(vote.id, testUserId2, "auto_60m");
+      assertEquals(await votesService.claimReminder(vote.id, testUserId2, "auto_60m"), true);
+
+      assertEquals(await votesService.getRemindedUserIds(vote.id, "manual"), [testUserId2]);
+      assertEquals(await votesService.getRemindedUserIds(vote.id, "auto_1440m"), []);
+    });
   },
 );
@@ -11,6 +11,7 @@ import { createSlackVerifier } from "@middleware/slack-verification.ts";
 import { createGeneralRateLimit } from "@middleware/rate-limit.ts";
 import { securityHeaders } from "@middleware/security-headers.ts";
 import { sanitizeApiError } from "@utils/error-sanitization.ts";
+import { startVoteScheduler, stopVoteScheduler } from "@slack/services/scheduler.ts";
 
 // Load environment variables from .env file
 await load({ export: true });
@@ -225,12 +226,14 @@ function setupShutdownHandlers() {
   // Handle graceful shutdowns
   Deno.addSignalListener("SIGINT", async () => {
     logger.info("Shutting down server on SIGINT...");
+    stopVoteScheduler();
     await closeDatabase();
     Deno.exit(0);
   });
 
   Deno.addSignalListener("SIGTERM", async () => {
     logger.info("Shutting down server on SIGTERM...");
+    stopVoteScheduler();
     await closeDatabase();
     Deno.exit(0);
   });
@@ -240,4 +243,5 @@ function setupShutdownHandlers() {
 await connectToDatabase();
 const app = setupServer();
 setupShutdownHandlers();
+startVoteScheduler();
 await startServer(app);
@@ -0,0 +1,173 @@
+/**
+ * A ballot where voters spread a fixed number of points (e.g. dots) across the
+ * options, and every point is one vote. Ballots are stored as the points placed
+ * on each option. Used by the mechanisms without a quadratic cost.
+ */
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type { BallotEntry, VotingMechanism } from "./types.ts";
+
+// Read the points placed on an option. Blank input counts as 0, anything
+// other than a whole number is returned as NaN.
+function readPoints(
+  state: Record<string, Record<string, { value?: string | null }>>,
+  actionId: string,
+  index: number,
+): number | null {
+  const input = state[`option_${index}`]?.[`${actionId}_${index}`];
+  if (!input) {
+    return null;
+  }
+
+  const value = (input.value ?? "").trim();
+  return /^\d*$/.test(value) ? Number(value) : NaN;
+}
+
+/**
+ * Creates the ballot for spreading points across the options
+ * @param unit What a point is called on the ballot, e.g. "dot"
+ */
+export function createAllocationBallot(
+  unit: string,
+): Pick<
+  VotingMechanism,
+  "ballotErrorBlockId" | "createBallotBlocks" | "previewBallot" | "parseBallot"
+> {
+  const units = `${unit}s`;
+  const label = units.charAt(0).toUpperCase() + units.slice(1);
+
+  return {
+    ballotErrorBlockId: "option_0",
+
+    createBallotBlocks(vote) {
+      const blocks: SlackBlock[] = [
+        {
+          type: "section",
+          block_id: "ballot_budget",
+          text: {
+            type: "mrkdwn",
+            text: vote.creditsUsed !== undefined
+              ? `You have *${vote.creditsPerUser}* ${units} to spread across the options (${vote.creditsUsed} used, ${
+                Math.max(vote.creditsPerUser - vote.creditsUsed, 0)
+              } remaining). Each ${unit} is one vote.`
+              : `You have *${vote.creditsPerUser}* ${units} to spread across the options. Each ${unit} is one vote.`,
+          },
+        },
+      ];
+
+      // Warn before submitting rather than rejecting the ballot afterwards
+      if (vote.creditsUsed !== undefined && vote.creditsUsed > vote.creditsPerUser) {
+        blocks.push({
+          type: "context",
+          block_id: "ballot_over_budget",
+          elements: [
+            {
+              type: "mrkdwn",
+              text: `:warning: *Too many ${units}:* you placed ${vote.creditsUsed} ${units}, ${
+                vote.creditsUsed - vote.creditsPerUser
+              } more than you have. Remove some ${units} before submitting.`,
+            },
+          ],
+        });
+      }
+
+      blocks.push({
+        type: "divider",
+      });
+
+      for (let index = 0; index < vote.options.length; index++) {
+        const previousBallot = vote.previousVotes?.find((v) => v.optionIndex === index);
+        const cost = vote.optionCosts?.[index];
+
+        blocks.push({
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `*Option ${index + 1}:* ${vote.options[index]}${
+              cost !== undefined ? ` (costs ${cost})` : ""
+            }`,
+          },
+        });
+
+        // Typing sends a block action, so the remaining points update as the voter types
+        blocks.push({
+          type: "input",
+          block_id: `option_${index}`,
+          optional: true, // Blank counts as nothing placed
+          dispatch_action: true,
+          element: {
+            type: "number_input",
+            action_id: `${units}_${index}`,
+            dispatch_action_config: {
+              trigger_actions_on: ["on_character_entered"],
+            },
+            is_decimal_allowed: false,
+            min_value: "0",
+            max_value: String(vote.creditsPerUser),
+            placeholder: {
+              type: "plain_text",
+              text: "0",
+            },
+            initial_value: String(previousBallot?.credits ?? 0),
+          },
+          label: {
+            type: "plain_text",
+            text: label,
+            emoji: true,
+          },
+        });
+      }
+
+      return blocks;
+    },
+
+    previewBallot(vote, state) {
+      const previousVotes: BallotEntry[] = [];
+      let creditsUsed = 0;
+
+      for (let i = 0; i < vote.options.length; i++) {
+        const points = readPoints(state, units, i);
+
+        // Count unfinished or invalid input as nothing placed until the voter fixes it
+        const credits = points === null || Number.isNaN(points) ? 0 : points;
+        creditsUsed += credits;
+        previousVotes.push({ optionIndex: i, credits });
+      }
+
+      return { ...vote, previousVotes, creditsUsed };
+    },
+
+    parseBallot(vote, state) {
+      const entries: BallotEntry[] = [];
+      let total = 0;
+
+      for (let i = 0; i < vote.options.length; i++) {
+        const points = readPoints(state, units, i);
+        if (points === null) {
+          continue;
+        }
+
+        if (Number.isNaN(points)) {
+          return {
+            errors: {
+              [`option_${i}`]: `Please enter a whole number of ${units} (0, 1, 2, 3, etc.)`,
+            },
+          };
+        }
+
+        total += points;
+        entries.push({ optionIndex: i, credits: points });
+      }
+
+      if (total > vote.creditsPerUser) {
+        return {
+          errors: {
+            option_0:
+              `You placed ${total} ${units}, which exceeds the limit of ${vote.creditsPerUser} ${units}.`,
+          },
+        };
+      }
+
+      return { entries };
+    },
+  };
+}
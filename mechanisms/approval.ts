@@ -0,0 +1,130 @@
+/**
+ * Approval voting: each voter approves any number of options, and the option
+ * with the most approvals wins. Ballots are stored as 1 credit for each approved
+ * option and 0 for the rest, so a changed ballot replaces the earlier approvals.
+ */
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type { SettingsErrors, VotingMechanism } from "./types.ts";
+import { createResultsSections, formatBar } from "./format.ts";
+
+// Slack allows at most 10 options in one checkboxes element
+const OPTIONS_PER_GROUP = 10;
+
+const formatApprovals = (approvals: number) =>
+  `${approvals} ${approvals === 1 ? "approval" : "approvals"}`;
+
+export const approvalMechanism: VotingMechanism = {
+  id: "approval",
+  name: "Approval voting",
+  description: "Approve any number of options, the most approved wins",
+  ballotErrorBlockId: "approvals_0",
+
+  validateSettings({ allowOpposition }): SettingsErrors | null {
+    // Credits don't apply, every approval counts the same
+    if (allowOpposition) {
+      return {
+        vote_allow_opposition: "Votes against options are only available in quadratic voting",
+      };
+    }
+
+    return null;
+  },
+
+  describeSettings() {
+    return "*Approval voting:* Approve as many options as you like";
+  },
+
+  createBallotBlocks(vote) {
+    const blocks: SlackBlock[] = [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: "Check every option you approve of. Each approval counts as one vote.",
+        },
+      },
+      {
+        type: "divider",
+      },
+    ];
+
+    const checkboxOptions = vote.options.map((option, index) => ({
+      text: {
+        type: "mrkdwn",
+        text: `*Option ${index + 1}:* ${option}`,
+      },
+      value: String(index),
+    }));
+
+    // Votes with many options are split across several checkbox groups
+    for (let start = 0; start < checkboxOptions.length; start += OPTIONS_PER_GROUP) {
+      const options = checkboxOptions.slice(start, start + OPTIONS_PER_GROUP);
+      const approved = options.filter((option) =>
+        vote.previousVotes?.some((v) => String(v.optionIndex) === option.value && v.credits > 0)
+      );
+
+      blocks.push({
+        type: "input",
+        block_id: `approvals_${start / OPTIONS_PER_GROUP}`,
+        optional: true, // Approving nothing clears the ballot
+        element: {
+          type: "checkboxes",
+          action_id: "approvals",
+          options,
+          ...(approved.length > 0 ? { initial_options: approved } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: start === 0 ? "Approve" : "Approve (continued)",
+          emoji: true,
+        },
+      });
+    }
+
+    return blocks;
+  },
+
+  parseBallot(vote, state) {
+    const approved = new Set(
+      Object.entries(state)
+        .filter(([blockId]) => blockId.startsWith("approvals_"))
+        .flatMap(([, inputs]) => inputs.approvals?.selected_options ?? [])
+        .map((option) => Number(option.value)),
+    );
+
+    // Store every option, so options approved on an earlier ballot are cleared
+    return {
+      entries: vote.options.map((_option, index) => ({
+        optionIndex: index,
+        credits: approved.has(index) ? 1 : 0,
+      })),
+    };
+  },
+
+  tally({ options }, responses) {
+    return options.map((option, index) => {
+      const approvals = responses.filter(
+        (response) => response.optionIndex === index && response.credits > 0,
+      ).length;
+
+      return { option, votes: approvals, totalCredits: approvals };
+    });
+  },
+
+  createResultsBlocks(_vote, results) {
+    const totalApprovals = results.reduce((sum, r) => sum + r.votes, 0);
+
+    const lines = results.map((r) => {
+      const percentage = totalApprovals > 0 ? Math.round((r.votes / totalApprovals) * 100) : 0;
+
+      return `*${r.rank}.* ${r.option}: ${formatApprovals(r.votes)} (${percentage}%)\n${
+        formatBar(percentage)
+      }`;
+    });
+
+    return createResultsSections(
+      "Approval voting: each voter approved any number of options, and every approval is one vote.",
+      lines,
+    );
+  },
+};
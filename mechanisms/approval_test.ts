@@ -0,0 +1,87 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { approvalMechanism } from "./approval.ts";
+import type { SlackInputBlock } from "@slack/services/interactions/slack-block-types.ts";
+
+// Build the view state the voting modal submits for the approved options
+function createBallotState(approved: number[]) {
+  return {
+    approvals_0: {
+      approvals: {
+        type: "checkboxes",
+        value: "",
+        selected_options: approved.map((index) => ({ value: String(index) })),
+      },
+    },
+  };
+}
+
+const vote = { options: ["Option A", "Option B", "Option C"], creditsPerUser: 100 };
+
+Deno.test("approvalMechanism only allows votes against options in quadratic voting", () => {
+  assertEquals(approvalMechanism.validateSettings({ creditsPerUser: 50 }), null);
+  assertStringIncludes(
+    approvalMechanism.validateSettings({ creditsPerUser: 50, allowOpposition: true })!
+      .vote_allow_opposition,
+    "quadratic voting",
+  );
+});
+
+Deno.test("approvalMechanism stores every option, approved or not", () => {
+  const ballot = approvalMechanism.parseBallot(vote, createBallotState([0, 2]));
+
+  assertEquals(ballot.entries, [
+    { optionIndex: 0, credits: 1 },
+    { optionIndex: 1, credits: 0 },
+    { optionIndex: 2, credits: 1 },
+  ]);
+});
+
+Deno.test("approvalMechanism counts approvals per option", () => {
+  const results = approvalMechanism.tally(vote, [
+    { userId: "U1", optionIndex: 0, credits: 1 },
+    { userId: "U1", optionIndex: 1, credits: 1 },
+    { userId: "U2", optionIndex: 1, credits: 1 },
+    { userId: "U2", optionIndex: 2, credits: 0 },
+  ]);
+
+  assertEquals(results, [
+    { option: "Option A", votes: 1, totalCredits: 1 },
+    { option: "Option B", votes: 2, totalCredits: 2 },
+    { option: "Option C", votes: 0, totalCredits: 0 },
+  ]);
+});
+
+Deno.test("approvalMechanism checks previously approved options", () => {
+  const blocks = approvalMechanism.createBallotBlocks({
+    id: "vote-123",
+    title: "Test Vote",
+    creditsPerUser: 100,
+    options: vote.options,
+    previousVotes: [
+      { optionIndex: 0, credits: 0 },
+      { optionIndex: 1, credits: 1 },
+    ],
+  });
+
+  const input = blocks.find((block) => block.type === "input") as SlackInputBlock;
+  assertEquals(input.element.type, "checkboxes");
+  assertEquals((input.element.options as unknown[]).length, 3);
+  assertEquals(
+    (input.element.initial_options as { value: string }[]).map((option) => option.value),
+    ["1"],
+  );
+});
+
+Deno.test("approvalMechanism splits many options across checkbox groups", () => {
+  const options = Array.from({ length: 12 }, (_, index) => `Option ${index + 1}`);
+  const blocks = approvalMechanism.createBallotBlocks({
+    id: "vote-123",
+    title: "Test Vote",
+    creditsPerUser: 100,
+    options,
+  });
+
+  const inputs = blocks.filter((block) => block.type === "input") as SlackInputBlock[];
+  assertEquals(inputs.map((block) => block.block_id), ["approvals_0", "approvals_1"]);
+  assertEquals(inputs.map((block) => (block.element.options as unknown[]).length), [10, 2]);
+});
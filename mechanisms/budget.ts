@@ -0,0 +1,125 @@
+/**
+ * Participatory budgeting: each option has a cost, voters spread their credits across
+ * the options, and the options are funded in ranked order until the budget runs out.
+ * Ballots are stored as the credits placed on each option, like dot voting.
+ */
+import type { SettingsErrors, VotingMechanism } from "./types.ts";
+import { createAllocationBallot } from "./allocation.ts";
+import { createResultsSections, formatBar, formatVoters } from "./format.ts";
+
+/**
+ * Splits the cost off an option entered as "Refactor auth | 30"
+ * @returns The option and its cost, NaN if no valid cost was entered
+ */
+export function parseOptionCost(text: string): { option: string; cost: number } {
+  const match = text.match(/^(.*?)\s*\|\s*(\S*)\s*$/);
+  if (!match) {
+    return { option: text.trim(), cost: NaN };
+  }
+
+  const cost = /^\d+$/.test(match[2]) ? Number(match[2]) : NaN;
+  return { option: match[1].trim(), cost };
+}
+
+export const budgetMechanism: VotingMechanism = {
+  id: "budget",
+  name: "Participatory budgeting",
+  description: "Fund the most supported options until the budget runs out",
+  usesOptionCosts: true,
+
+  validateSettings(
+    { creditsPerUser, allowOpposition, budget, optionCosts },
+  ): SettingsErrors | null {
+    if (optionCosts?.some((cost) => Number.isNaN(cost) || cost <= 0)) {
+      return {
+        vote_options: 'Enter a cost for each option after a "|", e.g. "Refactor auth | 30"',
+      };
+    }
+
+    if (!Number.isInteger(creditsPerUser) || creditsPerUser <= 0) {
+      return { vote_credits: "Credits must be a positive whole number" };
+    }
+
+    if (!budget || !Number.isInteger(budget) || budget <= 0) {
+      return { vote_budget: "Enter the budget to fund options from, as a positive whole number" };
+    }
+
+    if (allowOpposition) {
+      return {
+        vote_allow_opposition: "Votes against options are only available in quadratic voting",
+      };
+    }
+
+    return null;
+  },
+
+  describeSettings(vote) {
+    return `*Budget:* ${vote.budget}\n*Credits per user:* ${vote.creditsPerUser}`;
+  },
+
+  ...createAllocationBallot("credit"),
+
+  tally({ options, budget, optionCosts }, responses) {
+    const results = options.map((option, index) => {
+      const credits = responses
+        .filter((response) => response.optionIndex === index)
+        .reduce((sum, response) => sum + response.credits, 0);
+
+      return {
+        option,
+        votes: credits,
+        totalCredits: credits,
+        cost: optionCosts?.[index] ?? 0,
+        funded: false,
+      };
+    });
+
+    // Fund options from the most supported down (keeping option order on a tie, as the
+    // results are ranked). Options that no longer fit are skipped, so a cheaper option
+    // further down can still use up the rest of the budget.
+    let remaining = budget ?? 0;
+    for (const result of [...results].sort((a, b) => b.votes - a.votes)) {
+      if (result.votes > 0 && result.cost <= remaining) {
+        result.funded = true;
+        remaining -= result.cost;
+      }
+    }
+
+    return results;
+  },
+
+  createResultsBlocks(vote, results) {
+    const totalCredits = results.reduce((sum, r) => sum + r.votes, 0);
+
+    const lines = results.map((r) => {
+      const percentage = totalCredits > 0 ? Math.round((r.votes / totalCredits) * 100) : 0;
+
+      return `*${r.rank}.* ${r.option}: ${r.votes} credits (${percentage}%) from ${
+        formatVoters(r.voters)
+      }\n${formatBar(percentage)} ${
+        r.funded ? ":white_check_mark: Funded" : ":x: Not funded"
+      }, costs ${r.cost}`;
+    });
+
+    const blocks = createResultsSections(
+      "Participatory budgeting: voters spread their credits across the options, and the options are funded from the most supported down while they fit in the budget.",
+      totalCredits > 0 ? lines : [],
+    );
+
+    const budget = vote.budget ?? 0;
+    const funded = results.filter((r) => r.funded);
+    const spent = funded.reduce((sum, r) => sum + (r.cost ?? 0), 0);
+
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Budget:* ${spent} of ${budget} allocated to ${funded.length} funded ${
+          funded.length === 1 ? "option" : "options"
+        }, ${budget - spent} remaining`,
+      },
+    });
+
+    return blocks;
+  },
+};
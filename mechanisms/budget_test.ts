@@ -0,0 +1,80 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { budgetMechanism, parseOptionCost } from "./budget.ts";
+
+const vote = {
+  options: ["Refactor auth", "Dark mode", "Search"],
+  creditsPerUser: 10,
+  budget: 50,
+  optionCosts: [30, 25, 20],
+};
+
+Deno.test("parseOptionCost splits the cost off an option", () => {
+  assertEquals(parseOptionCost("Refactor auth | 30"), { option: "Refactor auth", cost: 30 });
+  assertEquals(parseOptionCost("Dark mode|25"), { option: "Dark mode", cost: 25 });
+  assertEquals(parseOptionCost("Search").cost, NaN);
+  assertEquals(parseOptionCost("Search | lots").cost, NaN);
+});
+
+Deno.test("budgetMechanism validates the budget and option costs", () => {
+  assertEquals(budgetMechanism.validateSettings(vote), null);
+  assertStringIncludes(
+    budgetMechanism.validateSettings({ ...vote, optionCosts: [30, NaN, 20] })!.vote_options,
+    "Enter a cost for each option",
+  );
+  assertStringIncludes(
+    budgetMechanism.validateSettings({ ...vote, budget: null })!.vote_budget,
+    "positive whole number",
+  );
+  assertStringIncludes(
+    budgetMechanism.validateSettings({ ...vote, creditsPerUser: 0 })!.vote_credits,
+    "positive whole number",
+  );
+});
+
+Deno.test("budgetMechanism funds the most supported options that fit in the budget", () => {
+  const results = budgetMechanism.tally(vote, [
+    { userId: "U1", optionIndex: 0, credits: 6 },
+    { userId: "U1", optionIndex: 1, credits: 4 },
+    { userId: "U2", optionIndex: 1, credits: 3 },
+    { userId: "U2", optionIndex: 2, credits: 2 },
+  ]);
+
+  // Dark mode is funded first, Refactor auth no longer fits, and Search uses up the rest
+  assertEquals(results, [
+    { option: "Refactor auth", votes: 6, totalCredits: 6, cost: 30, funded: false },
+    { option: "Dark mode", votes: 7, totalCredits: 7, cost: 25, funded: true },
+    { option: "Search", votes: 2, totalCredits: 2, cost: 20, funded: true },
+  ]);
+});
+
+Deno.test("budgetMechanism shows what was funded in the results", () => {
+  const blocks = budgetMechanism.createResultsBlocks(
+    { budget: 50 } as Parameters<typeof budgetMechanism.createResultsBlocks>[0],
+    [
+      {
+        option: "Dark mode",
+        votes: 7,
+        totalCredits: 7,
+        cost: 25,
+        funded: true,
+        voters: 2,
+        rank: 1,
+      },
+      {
+        option: "Refactor auth",
+        votes: 6,
+        totalCredits: 6,
+        cost: 30,
+        funded: false,
+        voters: 1,
+        rank: 2,
+      },
+      { option: "Search", votes: 2, totalCredits: 2, cost: 20, funded: true, voters: 1, rank: 3 },
+    ],
+  );
+
+  const text = JSON.stringify(blocks);
+  assertStringIncludes(text, "*1.* Dark mode: 7 credits (47%) from 2 voters");
+  assertStringIncludes(text, ":x: Not funded, costs 30");
+  assertStringIncludes(text, "*Budget:* 45 of 50 allocated to 2 funded options, 5 remaining");
+});
@@ -0,0 +1,62 @@
+/**
+ * Dot voting: each voter spreads a fixed number of dots across the options, and
+ * every dot is one vote. Ballots are stored as the dots placed on each option.
+ */
+import type { SettingsErrors, VotingMechanism } from "./types.ts";
+import { createAllocationBallot } from "./allocation.ts";
+import { createResultsSections, formatBar, formatVoters } from "./format.ts";
+
+const formatDots = (dots: number) => `${dots} ${dots === 1 ? "dot" : "dots"}`;
+
+export const dotMechanism: VotingMechanism = {
+  id: "dot",
+  name: "Dot voting",
+  description: "Spread a fixed number of dots across the options",
+
+  validateSettings({ creditsPerUser, allowOpposition }): SettingsErrors | null {
+    if (!Number.isInteger(creditsPerUser) || creditsPerUser <= 0) {
+      return { vote_credits: "Dots must be a positive whole number" };
+    }
+
+    if (allowOpposition) {
+      return {
+        vote_allow_opposition: "Votes against options are only available in quadratic voting",
+      };
+    }
+
+    return null;
+  },
+
+  describeSettings(vote) {
+    return `*Dots per voter:* ${vote.creditsPerUser}`;
+  },
+
+  ...createAllocationBallot("dot"),
+
+  tally({ options }, responses) {
+    return options.map((option, index) => {
+      const dots = responses
+        .filter((response) => response.optionIndex === index)
+        .reduce((sum, response) => sum + response.credits, 0);
+
+      return { option, votes: dots, totalCredits: dots };
+    });
+  },
+
+  createResultsBlocks(_vote, results) {
+    const totalDots = results.reduce((sum, r) => sum + r.votes, 0);
+
+    const lines = results.map((r) => {
+      const percentage = totalDots > 0 ? Math.round((r.votes / totalDots) * 100) : 0;
+
+      return `*${r.rank}.* ${r.option}: ${formatDots(r.votes)} (${percentage}%)\n${
+        formatBar(percentage)
+      } from ${formatVoters(r.voters)}`;
+    });
+
+    return createResultsSections(
+      "Dot voting: each voter spread their dots across the options, and every dot is one vote.",
+      lines,
+    );
+  },
+};
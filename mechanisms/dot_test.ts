@@ -0,0 +1,86 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { dotMechanism } from "./dot.ts";
+import type {
+  SlackAnyBlock,
+  SlackBlock,
+  SlackInputBlock,
+} from "@slack/services/interactions/slack-block-types.ts";
+
+// Build the view state the voting modal submits for the given dots per option
+function createBallotState(dots: string[]) {
+  return Object.fromEntries(
+    dots.map((value, index) => [
+      `option_${index}`,
+      { [`dots_${index}`]: { type: "number_input", value } },
+    ]),
+  );
+}
+
+const vote = { options: ["Option A", "Option B", "Option C"], creditsPerUser: 10 };
+
+// Find a ballot block by its block ID
+const findBlock = (blocks: SlackBlock[], blockId: string) =>
+  blocks.find((block) => (block as SlackAnyBlock).block_id === blockId);
+
+Deno.test("dotMechanism validates the number of dots", () => {
+  assertEquals(dotMechanism.validateSettings({ creditsPerUser: 10 }), null);
+  assertStringIncludes(
+    dotMechanism.validateSettings({ creditsPerUser: 0 })!.vote_credits,
+    "positive whole number",
+  );
+});
+
+Deno.test("dotMechanism stores the dots placed on each option", () => {
+  const ballot = dotMechanism.parseBallot(vote, createBallotState(["6", "", "4"]));
+
+  assertEquals(ballot.entries, [
+    { optionIndex: 0, credits: 6 },
+    { optionIndex: 1, credits: 0 },
+    { optionIndex: 2, credits: 4 },
+  ]);
+});
+
+Deno.test("dotMechanism rejects ballots with too many dots", () => {
+  const ballot = dotMechanism.parseBallot(vote, createBallotState(["6", "3", "2"]));
+
+  assertStringIncludes(ballot.errors!.option_0, "placed 11 dots");
+  assertStringIncludes(
+    dotMechanism.parseBallot(vote, createBallotState(["1.5", "0", "0"])).errors!.option_0,
+    "whole number of dots",
+  );
+});
+
+Deno.test("dotMechanism counts each dot as one vote", () => {
+  const results = dotMechanism.tally(vote, [
+    { userId: "U1", optionIndex: 0, credits: 6 },
+    { userId: "U2", optionIndex: 0, credits: 3 },
+    { userId: "U2", optionIndex: 1, credits: 7 },
+  ]);
+
+  assertEquals(results, [
+    { option: "Option A", votes: 9, totalCredits: 9 },
+    { option: "Option B", votes: 7, totalCredits: 7 },
+    { option: "Option C", votes: 0, totalCredits: 0 },
+  ]);
+});
+
+Deno.test("dotMechanism shows the remaining dots as the voter types", () => {
+  const ballotVote = { id: "vote-123", title: "Test Vote", ...vote };
+  const preview = dotMechanism.previewBallot!(ballotVote, createBallotState(["4", "3", ""]));
+
+  const blocks = dotMechanism.createBallotBlocks(preview);
+  assertStringIncludes(JSON.stringify(blocks[0]), "7 used, 3 remaining");
+  assertEquals(findBlock(blocks, "ballot_over_budget"), undefined);
+
+  const input = findBlock(blocks, "option_0") as SlackInputBlock;
+  assertEquals(input.element.initial_value, "4");
+  assertEquals(input.element.max_value, "10");
+
+  const overBudget = dotMechanism.createBallotBlocks(
+    dotMechanism.previewBallot!(ballotVote, createBallotState(["8", "4", "0"])),
+  );
+  assertStringIncludes(
+    JSON.stringify(findBlock(overBudget, "ballot_over_budget")),
+    "placed 12 dots, 2 more than you have",
+  );
+});
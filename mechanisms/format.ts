@@ -0,0 +1,39 @@
+/**
+ * Formatting shared by the mechanisms' results blocks
+ */
+import type { SlackBlock as SlackMessageBlock } from "@slack/services/blocks.ts";
+
+// Round to one decimal place, as shown in the results
+export const roundVotes = (votes: number) => Math.round(votes * 10) / 10;
+
+export const formatVoters = (voters: number) => `${voters} ${voters === 1 ? "voter" : "voters"}`;
+
+/**
+ * Creates a visual bar for an option's share of the votes, with at least one segment
+ */
+export function formatBar(percentage: number): string {
+  const barLength = Math.max(1, Math.round(percentage / 5)); // Max 20 segments (for 100%)
+  return "█".repeat(barLength);
+}
+
+/**
+ * Creates the explainer and the ranked results list shown below the results header
+ */
+export function createResultsSections(explainer: string, lines: string[]): SlackMessageBlock[] {
+  return [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `_${explainer}_`,
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: lines.join("\n\n") || "No votes were cast.",
+      },
+    },
+  ];
+}
@@ -0,0 +1,236 @@
+/**
+ * Grading-based voting: each voter grades every option, and the options are ranked
+ * either by their median grade (majority judgment) or by their average score (score
+ * voting). Ballots are stored with the grade index plus one as the credits, so 0
+ * still means the option wasn't graded.
+ */
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type { BallotEntry, BallotResponse, SettingsErrors, VotingMechanism } from "./types.ts";
+import { createResultsSections, formatBar, formatVoters, roundVotes } from "./format.ts";
+
+// Grades from worst to best, as stored by their index
+export const JUDGMENT_GRADES = ["Reject", "Poor", "Acceptable", "Good", "Very good", "Excellent"];
+export const SCORE_GRADES = ["0 stars", "1 star", "2 stars", "3 stars", "4 stars", "5 stars"];
+
+// Count how many voters gave each option each grade, by option index and then grade index
+function countGrades(options: string[], grades: string[], responses: BallotResponse[]) {
+  const counts = options.map(() => new Array<number>(grades.length).fill(0));
+  for (const response of responses) {
+    if (response.credits > 0) {
+      counts[response.optionIndex][response.credits - 1]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Finds the majority value of an option: its median grade, then the median grade once
+ * that grade is removed, and so on. Majority judgment uses the lower median, and
+ * options are compared by their majority values to break ties between median grades.
+ * @param counts How many voters gave each grade, by grade index
+ */
+export function getMajorityValue(counts: number[]): number[] {
+  const grades = counts.flatMap((count, grade) => new Array<number>(count).fill(grade));
+  const value: number[] = [];
+
+  while (grades.length > 0) {
+    value.push(grades.splice(Math.floor((grades.length - 1) / 2), 1)[0]);
+  }
+
+  return value;
+}
+
+// Compare two majority values, positive if the first option is graded higher
+function compareMajorityValues(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+// The ballot and settings shared by both grading-based tallies
+function createGradedBallot(
+  grades: string[],
+): Pick<
+  VotingMechanism,
+  "ballotErrorBlockId" | "validateSettings" | "createBallotBlocks" | "parseBallot"
+> {
+  // Offered best first, as voters usually start from the top
+  const gradeOptions = grades.map((grade, index) => ({
+    text: {
+      type: "plain_text",
+      text: grade,
+      emoji: true,
+    },
+    value: String(index),
+  })).reverse();
+
+  return {
+    ballotErrorBlockId: "grade_0",
+
+    validateSettings({ allowOpposition }): SettingsErrors | null {
+      // Credits don't apply, voters grade the options instead
+      if (allowOpposition) {
+        return {
+          vote_allow_opposition: "Votes against options are only available in quadratic voting",
+        };
+      }
+
+      return null;
+    },
+
+    createBallotBlocks(vote) {
+      const blocks: SlackBlock[] = [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: "Give every option a grade. Options are compared by the grades they get.",
+          },
+        },
+        {
+          type: "divider",
+        },
+      ];
+
+      for (let index = 0; index < vote.options.length; index++) {
+        const previous = vote.previousVotes?.find((v) => v.optionIndex === index && v.credits > 0);
+
+        blocks.push({
+          type: "input",
+          block_id: `grade_${index}`,
+          element: {
+            type: "static_select",
+            action_id: `grade_${index}`,
+            placeholder: {
+              type: "plain_text",
+              text: "Choose a grade",
+            },
+            options: gradeOptions,
+            ...(previous
+              ? {
+                initial_option: gradeOptions.find((option) =>
+                  option.value === String(previous.credits - 1)
+                ),
+              }
+              : {}),
+          },
+          label: {
+            type: "plain_text",
+            text: `Option ${index + 1}: ${vote.options[index]}`,
+            emoji: true,
+          },
+        });
+      }
+
+      return blocks;
+    },
+
+    parseBallot(vote, state) {
+      const entries: BallotEntry[] = [];
+
+      for (let index = 0; index < vote.options.length; index++) {
+        const value = state[`grade_${index}`]?.[`grade_${index}`]?.selected_option?.value;
+        if (value === undefined) {
+          return { errors: { [`grade_${index}`]: "Please grade every option" } };
+        }
+
+        entries.push({ optionIndex: index, credits: Number(value) + 1 });
+      }
+
+      return { entries };
+    },
+  };
+}
+
+export const majorityJudgmentMechanism: VotingMechanism = {
+  id: "judgment",
+  name: "Majority judgment",
+  description: "Grade every option from Excellent to Reject, the best median grade wins",
+  ...createGradedBallot(JUDGMENT_GRADES),
+
+  describeSettings() {
+    return "*Majority judgment:* Grade every option from Excellent to Reject";
+  },
+
+  tally({ options }, responses) {
+    const counts = countGrades(options, JUDGMENT_GRADES, responses);
+    const majorityValues = counts.map(getMajorityValue);
+
+    // Options are ranked by how many other options have a lower majority value
+    return options.map((option, i) => ({
+      option,
+      votes: majorityValues.filter((value) => compareMajorityValues(majorityValues[i], value) > 0)
+        .length,
+      totalCredits: 0,
+      grades: counts[i],
+    }));
+  },
+
+  createResultsBlocks(_vote, results) {
+    const lines = results.map((r) => {
+      const median = getMajorityValue(r.grades ?? [])[0];
+      const distribution = (r.grades ?? [])
+        .flatMap((count, grade) => count > 0 ? [`${JUDGMENT_GRADES[grade]} ${count}`] : [])
+        .reverse()
+        .join(" · ");
+
+      if (median === undefined) {
+        return `*${r.rank}.* ${r.option}: not graded`;
+      }
+
+      return `*${r.rank}.* ${r.option}: median grade *${JUDGMENT_GRADES[median]}* from ${
+        formatVoters(r.voters)
+      }\n${distribution}`;
+    });
+
+    return createResultsSections(
+      "Majority judgment: voters graded every option, and options are ranked by their median grade. Ties are broken by setting the median grades aside one at a time until the options differ.",
+      results.some((r) => r.grades?.some((count) => count > 0)) ? lines : [],
+    );
+  },
+};
+
+export const scoreMechanism: VotingMechanism = {
+  id: "score",
+  name: "Score voting",
+  description: "Give every option 0 to 5 stars, the best average score wins",
+  ...createGradedBallot(SCORE_GRADES),
+
+  describeSettings() {
+    return "*Score voting:* Give every option 0 to 5 stars";
+  },
+
+  tally({ options }, responses) {
+    const counts = countGrades(options, SCORE_GRADES, responses);
+
+    return options.map((option, i) => {
+      const voters = counts[i].reduce((sum, count) => sum + count, 0);
+      const totalScore = counts[i].reduce((sum, count, score) => sum + count * score, 0);
+
+      return {
+        option,
+        votes: voters > 0 ? totalScore / voters : 0,
+        totalCredits: totalScore,
+        grades: counts[i],
+      };
+    });
+  },
+
+  createResultsBlocks(_vote, results) {
+    const maxScore = SCORE_GRADES.length - 1;
+
+    const lines = results.map((r) =>
+      `*${r.rank}.* ${r.option}: ${roundVotes(r.votes)} stars on average from ${
+        formatVoters(r.voters)
+      }\n${formatBar((r.votes / maxScore) * 100)}`
+    );
+
+    return createResultsSections(
+      "Score voting: voters gave every option 0 to 5 stars, and options are ranked by their average score.",
+      results.some((r) => r.voters > 0) ? lines : [],
+    );
+  },
+};
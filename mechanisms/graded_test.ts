@@ -0,0 +1,123 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { getMajorityValue, majorityJudgmentMechanism, scoreMechanism } from "./graded.ts";
+import type { SlackInputBlock } from "@slack/services/interactions/slack-block-types.ts";
+
+// Build the view state the voting modal submits for the grade of each option
+function createBallotState(grades: (number | null)[]) {
+  return Object.fromEntries(
+    grades.map((grade, index) => [
+      `grade_${index}`,
+      {
+        [`grade_${index}`]: {
+          type: "static_select",
+          value: "",
+          selected_option: grade === null ? null : { value: String(grade) },
+        },
+      },
+    ]),
+  );
+}
+
+// Store ballots the way the grading mechanisms do, with the grade index plus one as the credits
+function createResponses(ballots: Record<string, number[]>) {
+  return Object.entries(ballots).flatMap(([userId, grades]) =>
+    grades.map((grade, optionIndex) => ({ userId, optionIndex, credits: grade + 1 }))
+  );
+}
+
+const vote = { options: ["Option A", "Option B", "Option C"], creditsPerUser: 100 };
+
+Deno.test("graded ballots store every option's grade", () => {
+  const ballot = majorityJudgmentMechanism.parseBallot(vote, createBallotState([5, 0, 3]));
+
+  assertEquals(ballot.entries, [
+    { optionIndex: 0, credits: 6 },
+    { optionIndex: 1, credits: 1 },
+    { optionIndex: 2, credits: 4 },
+  ]);
+  assertEquals(
+    scoreMechanism.parseBallot(vote, createBallotState([5, null, 3])).errors,
+    { grade_1: "Please grade every option" },
+  );
+});
+
+Deno.test("graded ballots show previous grades, best grade first", () => {
+  const blocks = scoreMechanism.createBallotBlocks({
+    id: "vote-123",
+    title: "Test Vote",
+    creditsPerUser: 100,
+    options: vote.options,
+    previousVotes: [{ optionIndex: 1, credits: 5 }],
+  });
+
+  const inputs = blocks.filter((block) => block.type === "input") as SlackInputBlock[];
+  assertEquals(inputs[1].label.text, "Option 2: Option B");
+  assertEquals((inputs[1].element.initial_option as { value: string }).value, "4");
+  assertEquals(inputs[0].element.initial_option, undefined);
+  assertEquals(
+    (inputs[0].element.options as { text: { text: string } }[])[0].text.text,
+    "5 stars",
+  );
+});
+
+Deno.test("getMajorityValue takes lower medians one at a time", () => {
+  // Grades 0, 2, 2 and 4
+  assertEquals(getMajorityValue([1, 0, 2, 0, 1, 0]), [2, 2, 0, 4]);
+  assertEquals(getMajorityValue([0, 0, 0]), []);
+});
+
+Deno.test("majorityJudgmentMechanism breaks ties between median grades", () => {
+  // Option A and Option B both have a median grade of Good, but Option A's
+  // other grades are further below it
+  const results = majorityJudgmentMechanism.tally(
+    vote,
+    createResponses({
+      U1: [5, 4, 0],
+      U2: [3, 3, 1],
+      U3: [1, 2, 2],
+    }),
+  );
+
+  assertEquals(results.map((r) => r.votes), [1, 2, 0]);
+  assertEquals(results[1].grades, [0, 0, 1, 1, 1, 0]);
+});
+
+Deno.test("majorityJudgmentMechanism shows the median grade and distribution", () => {
+  const blocks = majorityJudgmentMechanism.createResultsBlocks(
+    // The mechanism doesn't read the vote for these results
+    {} as Parameters<typeof majorityJudgmentMechanism.createResultsBlocks>[0],
+    [
+      {
+        option: "Option B",
+        votes: 2,
+        totalCredits: 0,
+        grades: [0, 0, 1, 1, 1, 0],
+        voters: 3,
+        rank: 1,
+      },
+    ],
+  );
+
+  const text = JSON.stringify(blocks);
+  assertStringIncludes(text, "*1.* Option B: median grade *Good* from 3 voters");
+  assertStringIncludes(text, "Very good 1 · Good 1 · Acceptable 1");
+});
+
+Deno.test("scoreMechanism ranks options by their average score", () => {
+  const results = scoreMechanism.tally(
+    vote,
+    createResponses({
+      U1: [5, 3, 0],
+      U2: [2, 4, 1],
+    }),
+  );
+
+  assertEquals(results.map((r) => r.votes), [3.5, 3.5, 0.5]);
+  assertEquals(results.map((r) => r.totalCredits), [7, 7, 1]);
+
+  const blocks = scoreMechanism.createResultsBlocks(
+    {} as Parameters<typeof scoreMechanism.createResultsBlocks>[0],
+    [{ ...results[0], voters: 2, rank: 1 }],
+  );
+  assertStringIncludes(JSON.stringify(blocks), "*1.* Option A: 3.5 stars on average from 2 voters");
+});
@@ -0,0 +1,51 @@
+/**
+ * Registry of the available voting mechanisms
+ */
+import { ValidationError } from "@db/errors.ts";
+import { approvalMechanism } from "./approval.ts";
+import { budgetMechanism } from "./budget.ts";
+import { dotMechanism } from "./dot.ts";
+import { majorityJudgmentMechanism, scoreMechanism } from "./graded.ts";
+import { pokerMechanism } from "./poker.ts";
+import { quadraticMechanism } from "./quadratic.ts";
+import { instantRunoffMechanism, schulzeMechanism } from "./ranked.ts";
+import type { VotingMechanism } from "./types.ts";
+
+export type * from "./types.ts";
+
+// Mechanism used for votes created without choosing one
+export const DEFAULT_MECHANISM = "quadratic";
+
+// In the order they're offered when creating a vote
+export const MECHANISMS: Record<string, VotingMechanism> = {
+  [quadraticMechanism.id]: quadraticMechanism,
+  [approvalMechanism.id]: approvalMechanism,
+  [dotMechanism.id]: dotMechanism,
+  [instantRunoffMechanism.id]: instantRunoffMechanism,
+  [schulzeMechanism.id]: schulzeMechanism,
+  [budgetMechanism.id]: budgetMechanism,
+  [pokerMechanism.id]: pokerMechanism,
+  [majorityJudgmentMechanism.id]: majorityJudgmentMechanism,
+  [scoreMechanism.id]: scoreMechanism,
+};
+
+/**
+ * Finds a voting mechanism by ID, falling back to the default when no ID is given.
+ * Only the registry's own keys match, so IDs like "constructor" aren't mistaken for one.
+ */
+export function findMechanism(id?: string | null): VotingMechanism | null {
+  const mechanismId = id || DEFAULT_MECHANISM;
+  return Object.hasOwn(MECHANISMS, mechanismId) ? MECHANISMS[mechanismId] : null;
+}
+
+/**
+ * Gets a voting mechanism by ID, falling back to the default when no ID is given
+ * @throws ValidationError if the mechanism doesn't exist
+ */
+export function getMechanism(id?: string | null): VotingMechanism {
+  const mechanism = findMechanism(id);
+  if (!mechanism) {
+    throw new ValidationError(`Unknown voting mechanism: ${id}`);
+  }
+  return mechanism;
+}
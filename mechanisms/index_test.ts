@@ -0,0 +1,32 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { DEFAULT_MECHANISM, findMechanism, getMechanism } from "./index.ts";
+import { ValidationError } from "@db/errors.ts";
+
+Deno.test("getMechanism returns the requested mechanism", () => {
+  assertEquals(getMechanism("quadratic").id, "quadratic");
+  assertEquals(getMechanism("approval").id, "approval");
+  assertEquals(getMechanism("dot").id, "dot");
+  assertEquals(getMechanism("irv").id, "irv");
+  assertEquals(getMechanism("schulze").id, "schulze");
+  assertEquals(getMechanism("budget").id, "budget");
+  assertEquals(getMechanism("poker").id, "poker");
+  assertEquals(getMechanism("judgment").id, "judgment");
+  assertEquals(getMechanism("score").id, "score");
+});
+
+Deno.test("getMechanism falls back to the default mechanism", () => {
+  assertEquals(getMechanism().id, DEFAULT_MECHANISM);
+  assertEquals(getMechanism(null).id, DEFAULT_MECHANISM);
+});
+
+Deno.test("getMechanism throws for unknown mechanisms", () => {
+  assertThrows(() => getMechanism("lottery"), ValidationError, "Unknown voting mechanism");
+  assertThrows(() => getMechanism("constructor"), ValidationError, "Unknown voting mechanism");
+  assertThrows(() => getMechanism("toString"), ValidationError, "Unknown voting mechanism");
+});
+
+Deno.test("findMechanism only finds registered mechanisms", () => {
+  assertEquals(findMechanism("poker")?.id, "poker");
+  assertEquals(findMechanism(undefined)?.id, DEFAULT_MECHANISM);
+  assertEquals(findMechanism("__proto__"), null);
+});
@@ -0,0 +1,207 @@
+/**
+ * Planning poker: each voter picks one estimate from a scale, e.g. Fibonacci numbers
+ * or T-shirt sizes, and the estimates stay hidden until the creator reveals them by
+ * ending the vote. The options are the values of the scale, in order. Ballots are
+ * stored as 1 credit for the picked estimate and 0 for the rest.
+ */
+import type { SlackBlock as SlackMessageBlock } from "@slack/services/blocks.ts";
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type { OptionResult, SettingsErrors, VotingMechanism } from "./types.ts";
+import { createResultsSections, formatBar } from "./format.ts";
+
+// Slack allows at most 10 options in one radio buttons element
+const MAX_ESTIMATES = 10;
+
+const formatVotes = (votes: number) => `${votes} ${votes === 1 ? "vote" : "votes"}`;
+
+/**
+ * Finds the median estimate, as the option indexes of the middle two estimates.
+ * Both are the same index for an odd number of voters or when the middle two agree.
+ */
+export function getMedianEstimate(results: { votes: number }[]): [number, number] | null {
+  const estimates = results.flatMap((result, index) => new Array<number>(result.votes).fill(index));
+  if (estimates.length === 0) {
+    return null;
+  }
+
+  return [
+    estimates[Math.floor((estimates.length - 1) / 2)],
+    estimates[Math.floor(estimates.length / 2)],
+  ];
+}
+
+export const pokerMechanism: VotingMechanism = {
+  id: "poker",
+  name: "Planning poker",
+  description: "Pick one estimate, everyone's estimates are revealed together",
+  endVoteLabel: "Reveal",
+  hidesLiveResults: true, // Estimates stay hidden until the creator reveals them
+  ballotErrorBlockId: "estimate",
+  scales: {
+    fibonacci: { name: "Fibonacci", values: ["0", "1", "2", "3", "5", "8", "13", "21"] },
+    tshirt: { name: "T-shirt sizes", values: ["XS", "S", "M", "L", "XL"] },
+  },
+
+  validateSettings({ allowOpposition, options }): SettingsErrors | null {
+    if (options && options.length > MAX_ESTIMATES) {
+      return { vote_options: `A scale can have at most ${MAX_ESTIMATES} estimates` };
+    }
+
+    // Credits don't apply, every voter picks one estimate
+    if (allowOpposition) {
+      return {
+        vote_allow_opposition: "Votes against options are only available in quadratic voting",
+      };
+    }
+
+    return null;
+  },
+
+  describeSettings() {
+    return "*Planning poker:* Pick your estimate, the estimates are revealed together";
+  },
+
+  createBallotBlocks(vote) {
+    const radioOptions = vote.options.map((option, index) => ({
+      text: {
+        type: "plain_text",
+        text: option,
+        emoji: true,
+      },
+      value: String(index),
+    }));
+    const previous = vote.previousVotes?.find((v) => v.credits > 0);
+
+    const blocks: SlackBlock[] = [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            "Pick your estimate. Nobody sees it until the estimates are revealed, and you can change it until then.",
+        },
+      },
+      {
+        type: "divider",
+      },
+      {
+        type: "input",
+        block_id: "estimate",
+        element: {
+          type: "radio_buttons",
+          action_id: "estimate",
+          options: radioOptions,
+          ...(previous ? { initial_option: radioOptions[previous.optionIndex] } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Estimate",
+          emoji: true,
+        },
+      },
+    ];
+
+    return blocks;
+  },
+
+  parseBallot(vote, state) {
+    const value = state.estimate?.estimate?.selected_option?.value;
+    if (value === undefined) {
+      return { errors: { estimate: "Pick an estimate" } };
+    }
+
+    // Store every option, so an estimate picked on an earlier ballot is cleared
+    return {
+      entries: vote.options.map((_option, index) => ({
+        optionIndex: index,
+        credits: index === Number(value) ? 1 : 0,
+      })),
+    };
+  },
+
+  tally({ options }, responses) {
+    return options.map((option, index) => {
+      const voterIds = responses
+        .filter((response) => response.optionIndex === index && response.credits > 0)
+        .map((response) => response.userId);
+
+      return { option, votes: voterIds.length, totalCredits: voterIds.length, voterIds };
+    });
+  },
+
+  createResultsBlocks(vote, results) {
+    // Show the distribution in scale order rather than ranked
+    const options = vote.options as string[];
+    const estimates = options.map((option) =>
+      results.find((r) => r.option === option) ?? { option, votes: 0 }
+    );
+    const totalVotes = estimates.reduce((sum, r) => sum + r.votes, 0);
+
+    const lines = estimates
+      .filter((r) => r.votes > 0)
+      .map((r) => {
+        const percentage = Math.round((r.votes / totalVotes) * 100);
+        return `*${r.option}:* ${formatVotes(r.votes)} (${percentage}%)\n${formatBar(percentage)}`;
+      });
+
+    const blocks = createResultsSections(
+      "Planning poker: each voter picked one estimate, and the estimates were revealed together.",
+      lines,
+    );
+
+    const median = getMedianEstimate(estimates);
+    if (median) {
+      blocks.push(createSummaryBlock(options, estimates, median));
+    }
+
+    // Estimates that are far apart usually need discussing and another round
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: {
+            type: "plain_text",
+            text: "Re-vote",
+          },
+          value: `round_${vote.id}`,
+          action_id: "start_new_round",
+        },
+      ],
+    });
+
+    return blocks;
+  },
+};
+
+// Show the median estimate and who picked an estimate more than one step away from it.
+// Results that may not name voters leave them out, so only the number of outlying estimates is shown.
+function createSummaryBlock(
+  options: string[],
+  estimates: Pick<OptionResult, "votes" | "voterIds">[],
+  [low, high]: [number, number],
+): SlackMessageBlock {
+  const outliers = estimates.flatMap((r, index) =>
+    index < low - 1 || index > high + 1
+      ? r.voterIds
+        ? r.voterIds.map((userId) => `<@${userId}> (${options[index]})`)
+        : r.votes > 0
+        ? [`${formatVotes(r.votes)} (${options[index]})`]
+        : []
+      : []
+  );
+
+  return {
+    type: "section",
+    text: {
+      type: "mrkdwn",
+      text: `*Median:* ${
+        low === high ? options[low] : `${options[low]}–${options[high]}`
+      }\n*Outliers:* ${
+        outliers.length > 0
+          ? outliers.join(", ")
+          : "None, every estimate is within one step of the median"
+      }`,
+    },
+  };
+}
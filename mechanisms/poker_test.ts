@@ -0,0 +1,114 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { getMedianEstimate, pokerMechanism } from "./poker.ts";
+import type { SlackInputBlock } from "@slack/services/interactions/slack-block-types.ts";
+
+// Build the view state the voting modal submits for the picked estimate
+function createBallotState(optionIndex: number | null) {
+  return {
+    estimate: {
+      estimate: {
+        type: "radio_buttons",
+        value: "",
+        selected_option: optionIndex === null ? null : { value: String(optionIndex) },
+      },
+    },
+  };
+}
+
+// Store ballots the way planning poker does, with 1 credit for the picked estimate
+function createResponses(picks: Record<string, number>) {
+  return Object.entries(picks).flatMap(([userId, pick]) =>
+    vote.options.map((_option, optionIndex) => ({
+      userId,
+      optionIndex,
+      credits: optionIndex === pick ? 1 : 0,
+    }))
+  );
+}
+
+const vote = { options: ["1", "2", "3", "5", "8", "13"], creditsPerUser: 100 };
+
+Deno.test("pokerMechanism limits the scale to what fits on the ballot", () => {
+  assertEquals(pokerMechanism.validateSettings(vote), null);
+  assertStringIncludes(
+    pokerMechanism.validateSettings({
+      ...vote,
+      options: Array.from({ length: 11 }, (_value, index) => String(index)),
+    })!.vote_options,
+    "at most 10 estimates",
+  );
+});
+
+Deno.test("pokerMechanism stores the picked estimate and clears the others", () => {
+  const ballot = pokerMechanism.parseBallot(vote, createBallotState(2));
+
+  assertEquals(ballot.entries?.map((entry) => entry.credits), [0, 0, 1, 0, 0, 0]);
+  assertEquals(
+    pokerMechanism.parseBallot(vote, createBallotState(null)).errors,
+    { estimate: "Pick an estimate" },
+  );
+});
+
+Deno.test("pokerMechanism shows the previous estimate on the ballot", () => {
+  const blocks = pokerMechanism.createBallotBlocks({
+    id: "vote-123",
+    title: "Login page",
+    creditsPerUser: 100,
+    options: vote.options,
+    previousVotes: [{ optionIndex: 3, credits: 1 }],
+  });
+
+  const input = blocks.find((block) => block.type === "input") as SlackInputBlock;
+  assertEquals((input.element.initial_option as { value: string }).value, "3");
+});
+
+Deno.test("getMedianEstimate returns the middle estimates", () => {
+  assertEquals(getMedianEstimate([{ votes: 1 }, { votes: 0 }, { votes: 2 }]), [2, 2]);
+  assertEquals(getMedianEstimate([{ votes: 1 }, { votes: 1 }, { votes: 0 }]), [0, 1]);
+  assertEquals(getMedianEstimate([{ votes: 0 }, { votes: 0 }]), null);
+});
+
+Deno.test("pokerMechanism shows the distribution, median and outliers", () => {
+  const tallied = pokerMechanism.tally(
+    vote,
+    createResponses({ U1: 2, U2: 2, U3: 3, U4: 5, U5: 0 }),
+  );
+  assertEquals(tallied[2].voterIds, ["U1", "U2"]);
+
+  // Results arrive ranked, but the distribution is shown in scale order
+  const results = tallied
+    .map((result, index) => ({ ...result, voters: result.votes, rank: index + 1 }))
+    .sort((a, b) => b.votes - a.votes);
+  const blocks = pokerMechanism.createResultsBlocks(
+    { id: "vote-123", options: vote.options } as Parameters<
+      typeof pokerMechanism.createResultsBlocks
+    >[0],
+    results,
+  );
+
+  const text = JSON.stringify(blocks);
+  assertStringIncludes(text, "*1:* 1 vote (20%)");
+  assertStringIncludes(text, "*Median:* 3");
+  assertStringIncludes(text, "*Outliers:* <@U5> (1), <@U4> (13)");
+  assertStringIncludes(text, '"action_id":"start_new_round"');
+  assertStringIncludes(text, '"value":"round_vote-123"');
+});
+
+Deno.test("pokerMechanism doesn't name outliers of anonymous votes", () => {
+  // Anonymous votes have the voters left out of their results
+  const results = pokerMechanism.tally(
+    vote,
+    createResponses({ U1: 2, U2: 2, U3: 3, U4: 5, U5: 5 }),
+  ).map(({ voterIds: _voterIds, ...result }, index) => ({ ...result, voters: 0, rank: index + 1 }));
+
+  const text = JSON.stringify(
+    pokerMechanism.createResultsBlocks(
+      { id: "vote-123", options: vote.options } as Parameters<
+        typeof pokerMechanism.createResultsBlocks
+      >[0],
+      results,
+    ),
+  );
+  assertStringIncludes(text, "*Outliers:* 2 votes (13)");
+  assertEquals(text.includes("<@"), false);
+});
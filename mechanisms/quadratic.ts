@@ -0,0 +1,319 @@
+/**
+ * Quadratic voting: each voter casts votes across the options from a budget of
+ * credits, and n votes on one option cost n² credits, so every extra vote costs
+ * more than the last. Ballots are stored as the credits spent on each option.
+ *
+ * Votes that allow opposition also accept negative votes, which count against an
+ * option at the same cost and are stored as negative credits.
+ */
+import type { SlackBlock as SlackMessageBlock } from "@slack/services/blocks.ts";
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type {
+  BallotEntry,
+  OptionResult,
+  SettingsErrors,
+  TalliedOption,
+  VotingMechanism,
+} from "./types.ts";
+import { createResultsSections, formatBar, formatVoters, roundVotes } from "./format.ts";
+
+const PERFECT_SQUARE_EXAMPLES = "1, 4, 9, 16, 25, 36, 49, 64, 81, 100, etc.";
+
+// Explains the quadratic cost to voters
+const COST_EXAMPLES = "1 vote = 1 credit, 2 votes = 4 credits, 3 votes = 9 credits";
+
+// Read the votes entered for an option. Blank input counts as 0, anything
+// other than a whole number (or a negative one, without opposition) is returned as NaN.
+function readVotes(
+  state: Record<string, Record<string, { value?: string | null }>>,
+  index: number,
+  allowOpposition = false,
+): number | null {
+  const input = state[`option_${index}`]?.[`votes_${index}`];
+  if (!input) {
+    return null;
+  }
+
+  const value = (input.value ?? "").trim();
+  const pattern = allowOpposition ? /^(-?\d+)?$/ : /^\d*$/;
+  return pattern.test(value) ? Number(value) : NaN;
+}
+
+// Votes cost votes² credits, keeping the sign of votes against
+const votesToCredits = (votes: number) => Math.sign(votes) * votes * votes;
+
+// Stored credits back to votes, negative for votes against
+const creditsToVotes = (credits: number) => Math.sign(credits) * Math.sqrt(Math.abs(credits));
+
+/**
+ * Describes what a number of votes on one option costs
+ */
+export function formatVoteCost(votes: number): string {
+  if (votes === 0) {
+    return `Cost: ${COST_EXAMPLES}`;
+  }
+
+  const count = Math.abs(votes);
+  return `Cost: ${count} ${count === 1 ? "vote" : "votes"}${votes < 0 ? " against" : ""} = ${
+    count * count
+  } ${count === 1 ? "credit" : "credits"}`;
+}
+
+export const quadraticMechanism: VotingMechanism = {
+  id: "quadratic",
+  name: "Quadratic voting",
+  description: "Spend credits on votes, each extra vote costs more",
+  ballotErrorBlockId: "option_0",
+
+  validateSettings({ creditsPerUser }): SettingsErrors | null {
+    if (isNaN(creditsPerUser) || creditsPerUser <= 0) {
+      return { vote_credits: "Credits must be a positive number" };
+    }
+
+    // Credits must be a perfect square
+    if (!Number.isInteger(Math.sqrt(creditsPerUser))) {
+      return {
+        vote_credits: `Credits must be a perfect square (${PERFECT_SQUARE_EXAMPLES})`,
+      };
+    }
+
+    return null;
+  },
+
+  describeSettings(vote) {
+    return `*Credits per user:* ${vote.creditsPerUser}${
+      vote.allowOpposition ? "\n*Note:* Votes can also be cast against options." : ""
+    }`;
+  },
+
+  createBallotBlocks(vote) {
+    const opposition = vote.allowOpposition
+      ? " Enter a negative number of votes to vote against an option."
+      : "";
+
+    const blocks: SlackBlock[] = [
+      {
+        type: "section",
+        block_id: "ballot_budget",
+        text: {
+          type: "mrkdwn",
+          text: vote.creditsUsed !== undefined
+            ? `You have *${vote.creditsPerUser}* total credits to spend (${vote.creditsUsed} used, ${
+              Math.max(vote.creditsPerUser - vote.creditsUsed, 0)
+            } remaining). Enter the number of votes for each option. Each option costs votes² credits: ${COST_EXAMPLES}.${opposition}`
+            : `You have *${vote.creditsPerUser}* credits to spend. Enter the number of votes for each option. Each option costs votes² credits: ${COST_EXAMPLES}.${opposition}`,
+        },
+      },
+    ];
+
+    // Warn before submitting rather than rejecting the ballot afterwards
+    if (vote.creditsUsed !== undefined && vote.creditsUsed > vote.creditsPerUser) {
+      blocks.push({
+        type: "context",
+        block_id: "ballot_over_budget",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `:warning: *Over budget:* your votes cost ${vote.creditsUsed} credits, ${
+              vote.creditsUsed - vote.creditsPerUser
+            } more than you have. Remove some votes before submitting.`,
+          },
+        ],
+      });
+    }
+
+    blocks.push({
+      type: "divider",
+    });
+
+    // The most votes a voter can afford on a single option
+    const maxVotes = Math.floor(Math.sqrt(vote.creditsPerUser));
+
+    // Add input blocks for each option
+    for (let index = 0; index < vote.options.length; index++) {
+      const option = vote.options[index];
+
+      // Previous ballots are stored as credits, so show them as votes
+      const previousBallot = vote.previousVotes?.find((v) => v.optionIndex === index);
+      const previousVotes = Math.round(creditsToVotes(previousBallot?.credits ?? 0));
+
+      // Add section for the option
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*Option ${index + 1}:* ${option}`,
+        },
+      });
+
+      // Add input block for the option, with its cost alongside.
+      // Typing sends a block action, so the costs and budget update as the voter types.
+      blocks.push({
+        type: "input",
+        block_id: `option_${index}`,
+        optional: true, // Blank counts as no votes
+        dispatch_action: true,
+        element: {
+          type: "number_input",
+          action_id: `votes_${index}`,
+          dispatch_action_config: {
+            trigger_actions_on: ["on_character_entered"],
+          },
+          is_decimal_allowed: false,
+          min_value: vote.allowOpposition ? String(-maxVotes) : "0",
+          max_value: String(maxVotes),
+          placeholder: {
+            type: "plain_text",
+            text: "0",
+          },
+          initial_value: String(previousVotes),
+        },
+        label: {
+          type: "plain_text",
+          text: "Votes",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: formatVoteCost(previousVotes),
+          emoji: true,
+        },
+      });
+    }
+
+    return blocks;
+  },
+
+  previewBallot(vote, state) {
+    const previousVotes: BallotEntry[] = [];
+    let creditsUsed = 0;
+
+    for (let i = 0; i < vote.options.length; i++) {
+      const votes = readVotes(state, i, vote.allowOpposition);
+
+      // Count unfinished or invalid input as no votes until the voter fixes it
+      const credits = votes === null || Number.isNaN(votes) ? 0 : votesToCredits(votes);
+      creditsUsed += Math.abs(credits);
+      previousVotes.push({ optionIndex: i, credits });
+    }
+
+    return { ...vote, previousVotes, creditsUsed };
+  },
+
+  parseBallot(vote, state) {
+    const entries: BallotEntry[] = [];
+    let totalCredits = 0;
+
+    for (let i = 0; i < vote.options.length; i++) {
+      const votes = readVotes(state, i, vote.allowOpposition);
+      if (votes === null) {
+        continue;
+      }
+
+      if (Number.isNaN(votes)) {
+        return {
+          errors: {
+            [`option_${i}`]: vote.allowOpposition
+              ? "Please enter a whole number of votes (e.g. 2 to vote for, or -2 to vote against)"
+              : "Please enter a whole number of votes (0, 1, 2, 3, etc.)",
+          },
+        };
+      }
+
+      // Votes cost quadratically, and are stored as the credits spent
+      const credits = votesToCredits(votes);
+      totalCredits += Math.abs(credits);
+      entries.push({ optionIndex: i, credits });
+    }
+
+    if (totalCredits > vote.creditsPerUser) {
+      return {
+        errors: {
+          // Show on first field but could be a global error
+          option_0:
+            `Your votes cost ${totalCredits} credits, which exceeds the limit of ${vote.creditsPerUser} credits.`,
+        },
+      };
+    }
+
+    return { entries };
+  },
+
+  tally({ options, allowOpposition }, responses) {
+    // Create results for all options (even those with no votes)
+    return options.map((option, index) => {
+      const optionResponses = responses.filter((response) => response.optionIndex === index);
+
+      // Each ballot counts as √credits votes, so the votes are summed per ballot
+      // rather than taken from the total credits
+      const ballotVotes = optionResponses.map((response) => creditsToVotes(response.credits));
+      const result: TalliedOption = {
+        option,
+        votes: ballotVotes.reduce((sum, votes) => sum + votes, 0),
+        totalCredits: optionResponses.reduce(
+          (sum, response) => sum + Math.abs(response.credits),
+          0,
+        ),
+      };
+
+      if (allowOpposition) {
+        // Votes against cancel out votes for, leaving the net votes above
+        result.votesFor = ballotVotes.filter((v) => v > 0).reduce((sum, v) => sum + v, 0);
+        result.votesAgainst = -ballotVotes.filter((v) => v < 0).reduce((sum, v) => sum + v, 0);
+      }
+
+      return result;
+    });
+  },
+
+  createResultsBlocks(vote, results) {
+    if (vote.allowOpposition) {
+      return createOppositionResultsBlocks(results);
+    }
+
+    const totalVotes = results.reduce((sum, r) => sum + r.votes, 0);
+
+    // Show both votes and credits with visual bar
+    const lines = results.map((r) => {
+      const percentage = totalVotes > 0 ? Math.round((r.votes / totalVotes) * 100) : 0;
+
+      return `*${r.rank}.* ${r.option}: ${roundVotes(r.votes)} votes (${percentage}%)\n${
+        formatBar(percentage)
+      } ${r.totalCredits} credits from ${formatVoters(r.voters)}`;
+    });
+
+    return createResultsSections(
+      "Quadratic voting: each voter's votes = √credits they spent on the option. Cost increases quadratically with each vote: 1 vote = 1 credit, 2 votes = 4 credits, etc.",
+      lines,
+    );
+  },
+};
+
+// Show for, against and net votes for each option, for votes that allow opposition
+function createOppositionResultsBlocks(results: OptionResult[]): SlackMessageBlock[] {
+  // Every vote cast counts towards the bar, whichever way it went
+  const totalVotes = results.reduce(
+    (sum, r) => sum + (r.votesFor ?? 0) + (r.votesAgainst ?? 0),
+    0,
+  );
+
+  const lines = results.map((r) => {
+    const votesFor = r.votesFor ?? 0;
+    const votesAgainst = r.votesAgainst ?? 0;
+    const netVotes = roundVotes(r.votes);
+    const percentage = totalVotes > 0
+      ? Math.round(((votesFor + votesAgainst) / totalVotes) * 100)
+      : 0;
+
+    return `*${r.rank}.* ${r.option}: ${netVotes > 0 ? "+" : ""}${netVotes} net votes\n${
+      formatBar(percentage)
+    } ${roundVotes(votesFor)} for, ${
+      roundVotes(votesAgainst)
+    } against (${r.totalCredits} credits from ${formatVoters(r.voters)})`;
+  });
+
+  return createResultsSections(
+    "Quadratic voting with opposition: each voter's votes = √credits they spent, for or against each option at the same cost. Options are ranked by net votes (for minus against).",
+    lines,
+  );
+}
@@ -0,0 +1,192 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { formatVoteCost, quadraticMechanism } from "./quadratic.ts";
+import type {
+  SlackAnyBlock,
+  SlackBlock,
+  SlackInputBlock,
+} from "@slack/services/interactions/slack-block-types.ts";
+
+// Build the view state the voting modal submits for the given votes per option
+function createBallotState(votes: string[]) {
+  return Object.fromEntries(
+    votes.map((value, index) => [
+      `option_${index}`,
+      { [`votes_${index}`]: { type: "number_input", value } },
+    ]),
+  );
+}
+
+const vote = { options: ["Option A", "Option B", "Option C"], creditsPerUser: 100 };
+const opposedVote = { ...vote, allowOpposition: true };
+
+// Find a ballot block by its block ID
+const findBlock = (blocks: SlackBlock[], blockId: string) =>
+  blocks.find((block) => (block as SlackAnyBlock).block_id === blockId);
+
+Deno.test("quadraticMechanism validates the credits setting", () => {
+  assertEquals(quadraticMechanism.validateSettings({ creditsPerUser: 100 }), null);
+  assertStringIncludes(
+    quadraticMechanism.validateSettings({ creditsPerUser: 0 })!.vote_credits,
+    "positive number",
+  );
+  assertStringIncludes(
+    quadraticMechanism.validateSettings({ creditsPerUser: 50 })!.vote_credits,
+    "perfect square",
+  );
+});
+
+Deno.test("quadraticMechanism stores each option's votes as credits spent", () => {
+  const ballot = quadraticMechanism.parseBallot(vote, createBallotState(["4", "", "2"]));
+
+  assertEquals(ballot.errors, undefined);
+  assertEquals(ballot.entries, [
+    { optionIndex: 0, credits: 16 },
+    { optionIndex: 1, credits: 0 },
+    { optionIndex: 2, credits: 4 },
+  ]);
+});
+
+Deno.test("quadraticMechanism rejects votes that aren't whole numbers", () => {
+  for (const value of ["1.5", "-1", "two"]) {
+    const ballot = quadraticMechanism.parseBallot(vote, createBallotState(["4", value, "0"]));
+
+    assertStringIncludes(ballot.errors!.option_1, "whole number of votes");
+  }
+});
+
+Deno.test("quadraticMechanism rejects ballots over the credit limit", () => {
+  // 8² + 6² + 3² = 109 credits
+  const ballot = quadraticMechanism.parseBallot(vote, createBallotState(["8", "6", "3"]));
+
+  assertStringIncludes(ballot.errors!.option_0, "cost 109 credits");
+  assertStringIncludes(ballot.errors!.option_0, "exceeds the limit of 100 credits");
+});
+
+Deno.test("quadraticMechanism counts √credits of each ballot as votes", () => {
+  const results = quadraticMechanism.tally(vote, [
+    { userId: "U1", optionIndex: 0, credits: 16 },
+    { userId: "U2", optionIndex: 1, credits: 36 },
+    { userId: "U3", optionIndex: 0, credits: 9 },
+  ]);
+
+  // Option A gets √16 + √9 = 7 votes, not √25 = 5, so it beats Option B
+  assertEquals(results, [
+    { option: "Option A", votes: 7, totalCredits: 25 },
+    { option: "Option B", votes: 6, totalCredits: 36 },
+    { option: "Option C", votes: 0, totalCredits: 0 },
+  ]);
+});
+
+Deno.test("quadraticMechanism creates one votes input per option with its cost", () => {
+  const blocks = quadraticMechanism.createBallotBlocks({
+    id: "vote-123",
+    title: "Test Vote",
+    creditsPerUser: 100,
+    options: vote.options,
+    previousVotes: [{ optionIndex: 2, credits: 9 }],
+  });
+
+  const inputs = blocks.filter((block) => block.type === "input") as SlackInputBlock[];
+  assertEquals(inputs.map((block) => block.block_id), ["option_0", "option_1", "option_2"]);
+  assertEquals(inputs.map((block) => block.element.action_id), ["votes_0", "votes_1", "votes_2"]);
+
+  // Previous ballots are shown as votes, and no option can cost more than the budget
+  assertEquals(inputs.map((block) => block.element.initial_value), ["0", "0", "3"]);
+  assertEquals(inputs[0].element.max_value, "10");
+  assertEquals(inputs[2].hint?.text, "Cost: 3 votes = 9 credits");
+});
+
+Deno.test("formatVoteCost describes the cost of a number of votes", () => {
+  assertEquals(formatVoteCost(1), "Cost: 1 vote = 1 credit");
+  assertEquals(formatVoteCost(4), "Cost: 4 votes = 16 credits");
+  assertStringIncludes(formatVoteCost(0), "2 votes = 4 credits");
+});
+
+Deno.test("quadraticMechanism previews the ballot as the voter types", () => {
+  const ballotVote = { id: "vote-123", title: "Test Vote", ...vote };
+  const preview = quadraticMechanism.previewBallot!(
+    ballotVote,
+    createBallotState(["4", "abc", "3"]),
+  );
+
+  // Invalid input counts as no votes in the preview
+  assertEquals(preview.creditsUsed, 25);
+  assertEquals(preview.previousVotes, [
+    { optionIndex: 0, credits: 16 },
+    { optionIndex: 1, credits: 0 },
+    { optionIndex: 2, credits: 9 },
+  ]);
+
+  const blocks = quadraticMechanism.createBallotBlocks(preview);
+  assertStringIncludes(JSON.stringify(blocks[0]), "25 used, 75 remaining");
+  assertEquals(findBlock(blocks, "ballot_over_budget"), undefined);
+});
+
+Deno.test("quadraticMechanism warns when the ballot is over budget", () => {
+  const ballotVote = { id: "vote-123", title: "Test Vote", ...vote };
+  const preview = quadraticMechanism.previewBallot!(
+    ballotVote,
+    createBallotState(["8", "6", "3"]),
+  );
+
+  const blocks = quadraticMechanism.createBallotBlocks(preview);
+  const warning = findBlock(blocks, "ballot_over_budget");
+  assertStringIncludes(JSON.stringify(warning), "cost 109 credits, 9 more than you have");
+  assertStringIncludes(JSON.stringify(blocks[0]), "109 used, 0 remaining");
+});
+
+Deno.test("quadraticMechanism stores votes against as negative credits", () => {
+  const ballot = quadraticMechanism.parseBallot(opposedVote, createBallotState(["4", "-3", ""]));
+
+  assertEquals(ballot.errors, undefined);
+  assertEquals(ballot.entries, [
+    { optionIndex: 0, credits: 16 },
+    { optionIndex: 1, credits: -9 },
+    { optionIndex: 2, credits: 0 },
+  ]);
+});
+
+Deno.test("quadraticMechanism charges votes against at the same cost", () => {
+  // 8² + (-6)² = 100 credits is within the limit, one more vote against is not
+  assertEquals(
+    quadraticMechanism.parseBallot(opposedVote, createBallotState(["8", "-6", "0"])).errors,
+    undefined,
+  );
+
+  const ballot = quadraticMechanism.parseBallot(opposedVote, createBallotState(["8", "-6", "-1"]));
+  assertStringIncludes(ballot.errors!.option_0, "cost 101 credits");
+});
+
+Deno.test("quadraticMechanism tallies for, against and net votes", () => {
+  const results = quadraticMechanism.tally(opposedVote, [
+    { userId: "U1", optionIndex: 0, credits: 16 },
+    { userId: "U2", optionIndex: 0, credits: -25 },
+    { userId: "U1", optionIndex: 1, credits: 4 },
+    { userId: "U2", optionIndex: 1, credits: 1 },
+  ]);
+
+  // Votes are the net of votes for and against
+  assertEquals(results, [
+    { option: "Option A", votes: -1, totalCredits: 41, votesFor: 4, votesAgainst: 5 },
+    { option: "Option B", votes: 3, totalCredits: 5, votesFor: 3, votesAgainst: 0 },
+    { option: "Option C", votes: 0, totalCredits: 0, votesFor: 0, votesAgainst: 0 },
+  ]);
+});
+
+Deno.test("quadraticMechanism lets voters vote against options only when allowed", () => {
+  const ballotVote = { id: "vote-123", title: "Test Vote", ...opposedVote };
+  const blocks = quadraticMechanism.createBallotBlocks({
+    ...ballotVote,
+    previousVotes: [{ optionIndex: 1, credits: -4 }],
+  });
+
+  const inputs = blocks.filter((block) => block.type === "input") as SlackInputBlock[];
+  assertEquals(inputs[0].element.min_value, "-10");
+  assertEquals(inputs[1].element.initial_value, "-2");
+  assertEquals(inputs[1].hint?.text, "Cost: 2 votes against = 4 credits");
+  assertStringIncludes(JSON.stringify(blocks[0]), "negative number of votes");
+
+  // Votes against still count towards the budget
+  const preview = quadraticMechanism.previewBallot!(ballotVote, createBallotState(["-5", "5"]));
+  assertEquals(preview.creditsUsed, 50);
+});
@@ -0,0 +1,349 @@
+/**
+ * Ranked-choice voting: each voter orders the options by preference, and a single
+ * winner is picked with either an instant runoff or the Schulze (Condorcet) method.
+ * Ballots are stored with the rank as the credits (1 for the first choice), and 0
+ * for options the voter didn't rank.
+ */
+import type { SlackBlock as SlackMessageBlock } from "@slack/services/blocks.ts";
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type {
+  BallotResponse,
+  OptionResult,
+  SettingsErrors,
+  TalliedOption,
+  VotingMechanism,
+} from "./types.ts";
+import { createResultsSections } from "./format.ts";
+
+// Slack limits the text of a select option to 75 characters
+const MAX_OPTION_TEXT = 75;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// 1st, 2nd, 3rd, 4th, ..., 11th, 12th, 13th, ..., 21st
+function ordinal(n: number): string {
+  const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : suffixes[n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+const formatVotes = (votes: number) => `${votes} ${votes === 1 ? "vote" : "votes"}`;
+
+/**
+ * Groups the stored responses into each voter's ranked option indexes, first choice first
+ */
+export function getRankedBallots(responses: BallotResponse[]): number[][] {
+  const ballots = new Map<string, BallotResponse[]>();
+  for (const response of responses) {
+    if (response.credits > 0) {
+      ballots.set(response.userId, [...(ballots.get(response.userId) ?? []), response]);
+    }
+  }
+
+  return [...ballots.values()].map((ballot) =>
+    ballot.sort((a, b) => a.credits - b.credits).map((response) => response.optionIndex)
+  );
+}
+
+// The ballot and settings shared by both ranked-choice tallies
+const rankedBallot: Pick<
+  VotingMechanism,
+  | "ballotErrorBlockId"
+  | "validateSettings"
+  | "describeSettings"
+  | "createBallotBlocks"
+  | "parseBallot"
+> = {
+  ballotErrorBlockId: "choice_0",
+
+  validateSettings({ allowOpposition }): SettingsErrors | null {
+    // Credits don't apply, voters rank the options instead
+    if (allowOpposition) {
+      return {
+        vote_allow_opposition: "Votes against options are only available in quadratic voting",
+      };
+    }
+
+    return null;
+  },
+
+  describeSettings() {
+    return "*Ranked choice:* Rank the options in order of preference";
+  },
+
+  createBallotBlocks(vote) {
+    const blocks: SlackBlock[] = [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            "Rank the options in order of preference, starting with your first choice. You don't have to rank them all.",
+        },
+      },
+      {
+        type: "divider",
+      },
+    ];
+
+    const selectOptions = vote.options.map((option, index) => ({
+      text: {
+        type: "plain_text",
+        text: truncate(`${index + 1}. ${option}`, MAX_OPTION_TEXT),
+        emoji: true,
+      },
+      value: String(index),
+    }));
+
+    // One choice per option, so voters can rank every option
+    for (let choice = 0; choice < vote.options.length; choice++) {
+      const previous = vote.previousVotes?.find((v) => v.credits === choice + 1);
+
+      blocks.push({
+        type: "input",
+        block_id: `choice_${choice}`,
+        optional: true,
+        element: {
+          type: "static_select",
+          action_id: `choice_${choice}`,
+          placeholder: {
+            type: "plain_text",
+            text: "Choose an option",
+          },
+          options: selectOptions,
+          ...(previous ? { initial_option: selectOptions[previous.optionIndex] } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: `${ordinal(choice + 1)} choice`,
+          emoji: true,
+        },
+      });
+    }
+
+    return blocks;
+  },
+
+  parseBallot(vote, state) {
+    const ranked: number[] = [];
+
+    for (let choice = 0; choice < vote.options.length; choice++) {
+      const value = state[`choice_${choice}`]?.[`choice_${choice}`]?.selected_option?.value;
+      if (value === undefined) {
+        continue; // Skipped choices move the later ones up
+      }
+
+      const optionIndex = Number(value);
+      if (ranked.includes(optionIndex)) {
+        return {
+          errors: {
+            [`choice_${choice}`]: `You've already ranked ${vote.options[optionIndex]}`,
+          },
+        };
+      }
+      ranked.push(optionIndex);
+    }
+
+    // Store every option, so options ranked on an earlier ballot are cleared
+    return {
+      entries: vote.options.map((_option, index) => ({
+        optionIndex: index,
+        credits: ranked.indexOf(index) + 1,
+      })),
+    };
+  },
+};
+
+export const instantRunoffMechanism: VotingMechanism = {
+  id: "irv",
+  name: "Ranked choice (instant runoff)",
+  description: "Rank the options, the least popular are eliminated until one has a majority",
+  ...rankedBallot,
+
+  tally({ options }, responses) {
+    const ballots = getRankedBallots(responses);
+    const roundVotes: number[][] = options.map(() => []);
+    const remaining = new Set(options.map((_option, index) => index));
+
+    while (true) {
+      // Count each ballot for its highest ranked option still in the running
+      const counts = new Map([...remaining].map((index) => [index, 0]));
+      let activeBallots = 0;
+      for (const ballot of ballots) {
+        const choice = ballot.find((index) => remaining.has(index));
+        if (choice !== undefined) {
+          counts.set(choice, counts.get(choice)! + 1);
+          activeBallots++;
+        }
+      }
+
+      for (const [index, votes] of counts) {
+        roundVotes[index].push(votes);
+      }
+
+      const leader = Math.max(...counts.values());
+      if (remaining.size <= 1 || activeBallots === 0 || leader * 2 > activeBallots) {
+        break;
+      }
+
+      // Eliminate the option with the fewest votes, the last listed one on a tie
+      const fewest = Math.min(...counts.values());
+      const eliminated = [...remaining].filter((index) => counts.get(index) === fewest).pop()!;
+      remaining.delete(eliminated);
+    }
+
+    // Finalists are ranked by their votes in the final round, then the eliminated options
+    // by how long they stayed in the running, so each is ranked by how many options it beat
+    const finishesAhead = (a: number[], b: number[]) =>
+      a.length !== b.length ? a.length > b.length : a[a.length - 1] > b[b.length - 1];
+
+    return options.map((option, index) => ({
+      option,
+      votes: roundVotes.filter((other) => finishesAhead(roundVotes[index], other)).length,
+      totalCredits: 0,
+      roundVotes: roundVotes[index],
+    }));
+  },
+
+  createResultsBlocks(_vote, results) {
+    const roundCount = Math.max(...results.map((r) => r.roundVotes?.length ?? 0), 0);
+
+    const lines = results.map((r) => {
+      const rounds = r.roundVotes?.length ?? 0;
+      const lastVotes = r.roundVotes?.[rounds - 1] ?? 0;
+      return rounds === roundCount
+        ? `*${r.rank}.* ${r.option}: ${formatVotes(lastVotes)} in the final round`
+        : `*${r.rank}.* ${r.option}: eliminated in round ${rounds} with ${formatVotes(lastVotes)}`;
+    });
+
+    const blocks = createResultsSections(
+      "Ranked choice (instant runoff): each round counts every ballot for its highest ranked option still in the running, and the option with the fewest votes is eliminated until one has a majority.",
+      results.some((r) => r.roundVotes?.some((votes) => votes > 0)) ? lines : [],
+    );
+
+    if (roundCount > 1) {
+      blocks.push(createRoundsBlock(results, roundCount));
+    }
+
+    return blocks;
+  },
+};
+
+// Show the votes for each option round by round, and which option went out
+function createRoundsBlock(results: OptionResult[], roundCount: number): SlackMessageBlock {
+  const rounds = [];
+  for (let round = 0; round < roundCount; round++) {
+    const counted = results
+      .filter((r) => (r.roundVotes?.length ?? 0) > round)
+      .sort((a, b) => b.roundVotes![round] - a.roundVotes![round]);
+    const eliminated = counted.find((r) => r.roundVotes!.length === round + 1);
+
+    rounds.push(
+      `*Round ${round + 1}:* ${
+        counted.map((r) => `${r.option} ${r.roundVotes![round]}`).join(", ")
+      }${eliminated && round < roundCount - 1 ? ` — ${eliminated.option} eliminated` : ""}`,
+    );
+  }
+
+  return {
+    type: "section",
+    text: {
+      type: "mrkdwn",
+      text: rounds.join("\n"),
+    },
+  };
+}
+
+export const schulzeMechanism: VotingMechanism = {
+  id: "schulze",
+  name: "Ranked choice (Schulze)",
+  description: "Rank the options, the option preferred over every other one wins",
+  ...rankedBallot,
+
+  tally({ options }, responses) {
+    const ballots = getRankedBallots(responses);
+    const count = options.length;
+
+    // Number of voters who prefer each option over each other option.
+    // Ranked options are preferred over unranked ones.
+    const preferences = options.map(() => new Array<number>(count).fill(0));
+    for (const ballot of ballots) {
+      for (let i = 0; i < count; i++) {
+        for (let j = 0; j < count; j++) {
+          const rankI = ballot.indexOf(i);
+          const rankJ = ballot.indexOf(j);
+          if (i !== j && rankI !== -1 && (rankJ === -1 || rankI < rankJ)) {
+            preferences[i][j]++;
+          }
+        }
+      }
+    }
+
+    // Strength of the strongest path between each pair of options
+    const strengths = preferences.map((row, i) =>
+      row.map((votes, j) => (votes > preferences[j][i] ? votes : 0))
+    );
+    for (let k = 0; k < count; k++) {
+      for (let i = 0; i < count; i++) {
+        for (let j = 0; j < count; j++) {
+          if (i !== j && i !== k && j !== k) {
+            strengths[i][j] = Math.max(strengths[i][j], Math.min(strengths[i][k], strengths[k][j]));
+          }
+        }
+      }
+    }
+
+    // Options are ranked by how many other options they beat
+    return options.map((option, i) => ({
+      option,
+      votes: strengths[i].filter((strength, j) => strength > strengths[j][i]).length,
+      totalCredits: 0,
+      pairwise: preferences[i],
+    }));
+  },
+
+  createResultsBlocks(vote, results) {
+    const hasVotes = results.some((r) => r.pairwise?.some((votes) => votes > 0));
+    const others = Math.max(results.length - 1, 0);
+    const lines = results.map((r) => `*${r.rank}.* ${r.option}: beats ${r.votes} of ${others}`);
+
+    const blocks = createResultsSections(
+      "Ranked choice (Schulze): options are compared in pairs, and each option is ranked by how many others it beats through its strongest chain of pairwise wins.",
+      hasVotes ? lines : [],
+    );
+
+    if (hasVotes) {
+      blocks.push(createPairwiseBlock(vote.options as string[], results));
+    }
+
+    return blocks;
+  },
+};
+
+// Show how many voters prefer each option (row) over each other option (column)
+function createPairwiseBlock(options: string[], results: TalliedOption[]): SlackMessageBlock {
+  const pairwise = options.map((option) => results.find((r) => r.option === option)?.pairwise);
+  const labels = options.map((option, index) => truncate(`#${index + 1} ${option}`, 16));
+  const labelWidth = Math.max(...labels.map((label) => label.length));
+  const cellWidth = Math.max(4, String(options.length).length + 3);
+
+  const header = " ".repeat(labelWidth) +
+    options.map((_option, index) => `#${index + 1}`.padStart(cellWidth)).join("");
+  const rows = labels.map((label, i) =>
+    label.padEnd(labelWidth) +
+    options.map((_option, j) => (i === j ? "-" : String(pairwise[i]?.[j] ?? 0)).padStart(cellWidth))
+      .join("")
+  );
+
+  return {
+    type: "section",
+    text: {
+      type: "mrkdwn",
+      text:
+        `*Pairwise preferences* (voters preferring the row option over the column option):\n\`\`\`\n${
+          [header, ...rows].join("\n")
+        }\n\`\`\``,
+    },
+  };
+}
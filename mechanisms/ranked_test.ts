@@ -0,0 +1,161 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { getRankedBallots, instantRunoffMechanism, schulzeMechanism } from "./ranked.ts";
+import type { SlackInputBlock } from "@slack/services/interactions/slack-block-types.ts";
+
+// Build the view state the voting modal submits for the chosen option at each rank
+function createBallotState(choices: (number | null)[]) {
+  return Object.fromEntries(
+    choices.map((optionIndex, choice) => [
+      `choice_${choice}`,
+      {
+        [`choice_${choice}`]: {
+          type: "static_select",
+          value: "",
+          selected_option: optionIndex === null ? null : { value: String(optionIndex) },
+        },
+      },
+    ]),
+  );
+}
+
+// Store ballots the way the ranked mechanisms do, with the rank as the credits
+function createResponses(ballots: Record<string, number[]>) {
+  return Object.entries(ballots).flatMap(([userId, ranking]) =>
+    ranking.map((optionIndex, rank) => ({ userId, optionIndex, credits: rank + 1 }))
+  );
+}
+
+const vote = { options: ["Option A", "Option B", "Option C"], creditsPerUser: 100 };
+
+Deno.test("ranked ballots store each option's rank, skipping blank choices", () => {
+  const ballot = instantRunoffMechanism.parseBallot(vote, createBallotState([2, null, 0]));
+
+  assertEquals(ballot.entries, [
+    { optionIndex: 0, credits: 2 },
+    { optionIndex: 1, credits: 0 },
+    { optionIndex: 2, credits: 1 },
+  ]);
+});
+
+Deno.test("ranked ballots reject an option ranked twice", () => {
+  const ballot = schulzeMechanism.parseBallot(vote, createBallotState([1, 1, null]));
+
+  assertStringIncludes(ballot.errors!.choice_1, "already ranked Option B");
+});
+
+Deno.test("ranked ballots show previous choices", () => {
+  const blocks = instantRunoffMechanism.createBallotBlocks({
+    id: "vote-123",
+    title: "Test Vote",
+    creditsPerUser: 100,
+    options: vote.options,
+    previousVotes: [
+      { optionIndex: 0, credits: 2 },
+      { optionIndex: 1, credits: 0 },
+      { optionIndex: 2, credits: 1 },
+    ],
+  });
+
+  const inputs = blocks.filter((block) => block.type === "input") as SlackInputBlock[];
+  assertEquals(inputs.map((block) => block.label.text), ["1st choice", "2nd choice", "3rd choice"]);
+  assertEquals(
+    inputs.map((block) => (block.element.initial_option as { value: string } | undefined)?.value),
+    ["2", "0", undefined],
+  );
+});
+
+Deno.test("getRankedBallots orders each voter's ranked options", () => {
+  const ballots = getRankedBallots([
+    { userId: "U1", optionIndex: 0, credits: 2 },
+    { userId: "U1", optionIndex: 1, credits: 0 },
+    { userId: "U1", optionIndex: 2, credits: 1 },
+    { userId: "U2", optionIndex: 1, credits: 1 },
+  ]);
+
+  assertEquals(ballots, [[2, 0], [1]]);
+});
+
+Deno.test("instantRunoffMechanism eliminates options until one has a majority", () => {
+  const results = instantRunoffMechanism.tally(
+    vote,
+    createResponses({
+      U1: [0],
+      U2: [0, 1],
+      U3: [1, 2],
+      U4: [1, 2],
+      U5: [2, 1],
+    }),
+  );
+
+  // Option C goes out first, and its ballot gives Option B the majority
+  assertEquals(results, [
+    { option: "Option A", votes: 1, totalCredits: 0, roundVotes: [2, 2] },
+    { option: "Option B", votes: 2, totalCredits: 0, roundVotes: [2, 3] },
+    { option: "Option C", votes: 0, totalCredits: 0, roundVotes: [1] },
+  ]);
+});
+
+Deno.test("instantRunoffMechanism ranks eliminated options after the finalists", () => {
+  // Every option has 2 votes in the last round it takes part in
+  const results = instantRunoffMechanism.tally(
+    vote,
+    createResponses({ U1: [0], U2: [0], U3: [1], U4: [1], U5: [2], U6: [2] }),
+  );
+
+  // Option C goes out in round 1 and Option B in round 2, so neither ties with Option A
+  assertEquals(results.map((r) => r.roundVotes), [[2, 2, 2], [2, 2], [2]]);
+  assertEquals(results.map((r) => r.votes), [2, 1, 0]);
+});
+
+Deno.test("instantRunoffMechanism shows the rounds in the results", () => {
+  const blocks = instantRunoffMechanism.createResultsBlocks(
+    // The mechanism doesn't read the vote for these results
+    {} as Parameters<typeof instantRunoffMechanism.createResultsBlocks>[0],
+    [
+      { option: "Option B", votes: 2, totalCredits: 0, roundVotes: [2, 3], voters: 3, rank: 1 },
+      { option: "Option A", votes: 1, totalCredits: 0, roundVotes: [2, 2], voters: 2, rank: 2 },
+      { option: "Option C", votes: 0, totalCredits: 0, roundVotes: [1], voters: 3, rank: 3 },
+    ],
+  );
+
+  const text = JSON.stringify(blocks);
+  assertStringIncludes(text, "*1.* Option B: 3 votes in the final round");
+  assertStringIncludes(text, "*3.* Option C: eliminated in round 1 with 1 vote");
+  assertStringIncludes(text, "*Round 1:* Option B 2, Option A 2, Option C 1 — Option C eliminated");
+  assertStringIncludes(text, "*Round 2:* Option B 3, Option A 2");
+});
+
+Deno.test("schulzeMechanism ranks options by the strongest pairwise paths", () => {
+  // Option A and Option C tie head to head, but Option A wins through Option B
+  const results = schulzeMechanism.tally(
+    vote,
+    createResponses({
+      U1: [0, 1, 2],
+      U2: [1, 2, 0],
+      U3: [2, 0, 1],
+      U4: [0, 1, 2],
+    }),
+  );
+
+  assertEquals(results, [
+    { option: "Option A", votes: 2, totalCredits: 0, pairwise: [0, 3, 2] },
+    { option: "Option B", votes: 1, totalCredits: 0, pairwise: [1, 0, 3] },
+    { option: "Option C", votes: 0, totalCredits: 0, pairwise: [2, 1, 0] },
+  ]);
+});
+
+Deno.test("schulzeMechanism shows the pairwise matrix in the results", () => {
+  const blocks = schulzeMechanism.createResultsBlocks(
+    { options: vote.options } as Parameters<typeof schulzeMechanism.createResultsBlocks>[0],
+    [
+      { option: "Option A", votes: 2, totalCredits: 0, pairwise: [0, 3, 2], voters: 3, rank: 1 },
+      { option: "Option B", votes: 1, totalCredits: 0, pairwise: [1, 0, 3], voters: 4, rank: 2 },
+      { option: "Option C", votes: 0, totalCredits: 0, pairwise: [2, 1, 0], voters: 4, rank: 3 },
+    ],
+  );
+
+  const text = JSON.stringify(blocks);
+  assertStringIncludes(text, "*1.* Option A: beats 2 of 2");
+  assertStringIncludes(text, "Pairwise preferences");
+  assertStringIncludes(text, "#1 Option A   -   3   2");
+});
@@ -0,0 +1,142 @@
+/**
+ * Type definitions for voting mechanisms.
+ *
+ * A mechanism decides how a vote is cast and counted: it renders the ballot,
+ * validates submitted ballots, tallies the stored responses and renders the results.
+ */
+import type { Vote } from "generated/index.d.ts";
+import type { SlackBlock as SlackMessageBlock } from "@slack/services/blocks.ts";
+import type { SlackBlock } from "@slack/services/interactions/slack-block-types.ts";
+import type { SlackViewStateValue } from "@slack/services/interactions/types.ts";
+
+// A single stored ballot value, saved as a vote response
+export interface BallotEntry {
+  optionIndex: number;
+  credits: number; // Negative for votes against the option
+}
+
+// A stored vote response, as read back when tallying
+export interface BallotResponse extends BallotEntry {
+  userId: string;
+}
+
+// The vote as shown on the ballot modal
+export interface BallotVote {
+  id: string;
+  title: string;
+  description?: string | null;
+  creditsPerUser: number;
+  creditsUsed?: number;
+  options: string[];
+  previousVotes?: BallotEntry[]; // Values shown in the ballot inputs
+  mechanism?: string | null;
+  allowOpposition?: boolean; // Voters can also cast votes against options
+  optionCosts?: number[] | null; // Cost of each option, for participatory budgeting
+  questions?: BallotVote[]; // Multi-question votes: the ballot of each question
+  ballotVisibility?: string; // Who can see the voter's ballot, told to them in the voting modal
+}
+
+// The settings chosen when the vote is created
+export interface VoteSettings {
+  creditsPerUser: number;
+  allowOpposition?: boolean;
+  budget?: number | null; // Total budget to fund options from, for participatory budgeting
+  optionCosts?: number[] | null; // Cost of each option, NaN where none was entered
+  options?: string[]; // Only passed when validating the settings of a new vote
+}
+
+// Error messages about the settings, keyed by the creation modal block they belong to
+export type SettingsErrors = Record<string, string>;
+
+// The vote settings a ballot is read and counted with
+export interface BallotSettings {
+  options: string[];
+  creditsPerUser: number;
+  allowOpposition?: boolean;
+}
+
+// One option's count, as tallied by a mechanism
+export interface TalliedOption {
+  option: string;
+  votes: number; // What the option is ranked by, e.g. the sum of √credits over each ballot
+  totalCredits: number; // Credits spent on the option, for or against
+  votesFor?: number; // Only set for votes that allow opposition, where votes is the net
+  votesAgainst?: number;
+  roundVotes?: number[]; // Instant runoff: votes in each round until the option was eliminated
+  pairwise?: number[]; // Schulze: voters preferring this option over each option, by option index
+  cost?: number; // Participatory budgeting: what funding the option costs
+  funded?: boolean; // Participatory budgeting: whether the option fits in the budget
+  voterIds?: string[]; // Planning poker: who picked the estimate, to name the outliers
+  grades?: number[]; // Majority judgment and score voting: voters giving each grade, by grade
+}
+
+// The result for one option, ranked against the other options
+export interface OptionResult extends TalliedOption {
+  voters: number; // Number of voters who spent credits on the option
+  rank: number; // 1 for the winner, tied options share a rank
+}
+
+// Either the entries to store, or error messages keyed by ballot block ID
+export type BallotParseResult =
+  | { entries: BallotEntry[]; errors?: undefined }
+  | { entries?: undefined; errors: Record<string, string> };
+
+export interface VotingMechanism {
+  id: string;
+  name: string;
+  description: string; // Shown when choosing the voting mode
+  usesOptionCosts?: boolean; // Options are entered with a cost, e.g. "Refactor auth | 30"
+  endVoteLabel?: string; // Label of the End Vote button, e.g. "Reveal"
+  hidesLiveResults?: boolean; // Results stay hidden until the vote ends, whatever was chosen
+  ballotErrorBlockId: string; // Ballot input block that shows errors about the whole ballot
+
+  // Preset options to pick from instead of entering them, keyed by ID, e.g. estimation scales
+  scales?: Record<string, { name: string; values: string[] }>;
+
+  /**
+   * Validates the vote settings chosen when the vote is created
+   * @returns Error messages keyed by the creation modal block they belong to, or null if valid
+   */
+  validateSettings(settings: VoteSettings): SettingsErrors | null;
+
+  /**
+   * Describes the vote's settings on the vote message, e.g. the credits each voter has
+   */
+  describeSettings(vote: VoteSettings): string;
+
+  /**
+   * Creates the ballot blocks shown below the vote title on the voting modal
+   */
+  createBallotBlocks(vote: BallotVote): SlackBlock[];
+
+  /**
+   * Fills in the ballot from what the voter has entered so far, so the voting modal
+   * can be redrawn while they type. Only needed for ballots with dispatch_action inputs.
+   */
+  previewBallot?(
+    vote: BallotVote,
+    state: Record<string, Record<string, SlackViewStateValue>>,
+  ): BallotVote;
+
+  /**
+   * Reads and validates a submitted ballot from the voting modal state
+   */
+  parseBallot(
+    vote: BallotSettings,
+    state: Record<string, Record<string, SlackViewStateValue>>,
+  ): BallotParseResult;
+
+  /**
+   * Counts the stored responses, returning one entry per option in the vote's option order.
+   * VotesService ranks the options by their votes.
+   */
+  tally(
+    vote: Omit<VoteSettings, "creditsPerUser"> & { options: string[] },
+    responses: BallotResponse[],
+  ): TalliedOption[];
+
+  /**
+   * Creates the blocks that explain and show the results, below the results header
+   */
+  createResultsBlocks(vote: Vote, results: OptionResult[]): SlackMessageBlock[];
+}
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "is_started" BOOLEAN NOT NULL DEFAULT true;
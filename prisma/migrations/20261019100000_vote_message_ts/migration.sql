@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "message_channel" TEXT,
+ADD COLUMN     "message_ts" TEXT;
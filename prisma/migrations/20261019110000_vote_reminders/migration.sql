@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "vote_reminders" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "vote_id" UUID NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "sent_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vote_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vote_reminders_vote_id_user_id_key_key" ON "vote_reminders"("vote_id", "user_id", "key");
+
+-- AddForeignKey
+ALTER TABLE "vote_reminders" ADD CONSTRAINT "vote_reminders_vote_id_fkey" FOREIGN KEY ("vote_id") REFERENCES "votes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
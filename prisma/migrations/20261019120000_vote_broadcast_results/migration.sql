@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "broadcast_results" BOOLEAN NOT NULL DEFAULT false;
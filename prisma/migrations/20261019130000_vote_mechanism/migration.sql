@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "mechanism" TEXT NOT NULL DEFAULT 'quadratic';
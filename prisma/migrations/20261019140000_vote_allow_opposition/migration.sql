@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "allow_opposition" BOOLEAN NOT NULL DEFAULT false;
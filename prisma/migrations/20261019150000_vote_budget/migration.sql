@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "budget" INTEGER,
+ADD COLUMN     "option_costs" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 1;
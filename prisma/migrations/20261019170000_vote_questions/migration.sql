@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "vote_responses_vote_id_user_id_option_index_key";
+
+-- AlterTable
+ALTER TABLE "vote_responses" ADD COLUMN     "question_index" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "questions" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vote_responses_vote_id_user_id_question_index_option_index_key" ON "vote_responses"("vote_id", "user_id", "question_index", "option_index");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "is_nominating" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "proposed_options" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "vote_id" UUID NOT NULL,
+    "text" TEXT NOT NULL,
+    "proposer_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'proposed',
+    "merged_into_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposed_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposed_options_vote_id_idx" ON "proposed_options"("vote_id");
+
+-- AddForeignKey
+ALTER TABLE "proposed_options" ADD CONSTRAINT "proposed_options_vote_id_fkey" FOREIGN KEY ("vote_id") REFERENCES "votes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
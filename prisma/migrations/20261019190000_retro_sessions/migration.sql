@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "retro_sessions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "workspace_id" UUID NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "facilitator_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "columns" JSONB NOT NULL,
+    "is_anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'collecting',
+    "vote_id" UUID,
+    "message_channel" TEXT,
+    "message_ts" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retro_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "retro_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "session_id" UUID NOT NULL,
+    "column" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "author_id" TEXT,
+    "grouped_into_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retro_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retro_sessions_vote_id_key" ON "retro_sessions"("vote_id");
+
+-- CreateIndex
+CREATE INDEX "retro_items_session_id_idx" ON "retro_items"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "retro_sessions" ADD CONSTRAINT "retro_sessions_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "retro_sessions" ADD CONSTRAINT "retro_sessions_vote_id_fkey" FOREIGN KEY ("vote_id") REFERENCES "votes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "retro_items" ADD CONSTRAINT "retro_items_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "retro_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "ballot_visibility" TEXT NOT NULL DEFAULT 'anonymous';
+
+-- Planning poker votes already named the voters of outlying estimates
+UPDATE "votes" SET "ballot_visibility" = 'public' WHERE "mechanism" = 'poker';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "results_visibility" TEXT NOT NULL DEFAULT 'creator';
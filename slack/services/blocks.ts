@@ -1,4 +1,14 @@
-import { Vote } from "generated/index.d.ts";
+import { RetroSession, Vote } from "generated/index.d.ts";
+import { getMechanism, type OptionResult } from "@mechanisms/index.ts";
+import {
+  getActiveProposals,
+  getResultsVisibility,
+  getVoteQuestions,
+  type ProposalRecord,
+  type QuestionResults,
+  type VoterBallot,
+} from "@db/votes.ts";
+import { getRetroGroups, type RetroGroup, type RetroItemRecord } from "@db/retro.ts";
 
 // Define the structure for Slack blocks
 export interface SlackBlock {
@@ -6,15 +16,108 @@ export interface SlackBlock {
   [key: string]: unknown;
 }
 
-// Create Slack blocks for displaying a vote
-export function createVoteBlocks(vote: Vote, _botUserId: string) {
-  const optionsText = (vote.options as unknown as string[])
-    .map((option: string, index: number) => `*${index + 1}.* ${option}`)
+// List the proposed options with who proposed them
+function formatProposals(proposals: ProposalRecord[]): string {
+  const activeProposals = getActiveProposals(proposals);
+  if (activeProposals.length === 0) {
+    return "_No options have been proposed yet._";
+  }
+
+  return activeProposals
+    .map((proposal, index) =>
+      `*${index + 1}.* ${proposal.text} (proposed by ${
+        proposal.proposerIds.map((userId) => `<@${userId}>`).join(", ")
+      })`
+    )
     .join("\n");
+}
+
+// Tells voters who can see how they voted
+const BALLOT_VISIBILITY_DESCRIPTIONS: Record<string, string> = {
+  anonymous: ":lock: Anonymous, nobody can see how you voted",
+  creator: ":bust_in_silhouette: The creator can see how you voted",
+  public: ":eyes: Everyone can see how you voted once the results are shown",
+};
+
+/**
+ * Describes who can see each voter's ballot, for the vote message and voting modal
+ */
+export function describeBallotVisibility(ballotVisibility: string): string {
+  return BALLOT_VISIBILITY_DESCRIPTIONS[ballotVisibility] ??
+    BALLOT_VISIBILITY_DESCRIPTIONS.anonymous;
+}
 
-  // Display status based on isEnded flag
+// Who can see the results while the vote is still open
+const RESULTS_VISIBILITY_DESCRIPTIONS: Record<string, string> = {
+  hidden: ":see_no_evil: Hidden until the vote ends",
+  creator: ":bust_in_silhouette: Visible live to the creator",
+  everyone: ":eyes: Visible live to everyone",
+};
+
+/**
+ * Formats a date as a Slack date token so every user sees it in their own timezone
+ */
+export function formatSlackDate(date: Date): string {
+  const timestamp = Math.floor(date.getTime() / 1000);
+  return `<!date^${timestamp}^{date_short_pretty} at {time}|${date.toUTCString()}>`;
+}
+
+/**
+ * Describes how many people have voted, relative to the eligible voters for restricted votes
+ */
+export function formatParticipation(voterCount: number, allowedVoters: string[] | null): string {
+  if (allowedVoters && allowedVoters.length > 0) {
+    return `${voterCount} of ${allowedVoters.length} eligible voters ${
+      voterCount === 1 ? "has" : "have"
+    } voted`;
+  }
+
+  return voterCount === 1 ? "1 person has voted" : `${voterCount} people have voted`;
+}
+
+// Create Slack blocks for displaying a vote.
+// When the vote's responses are included, the message also shows how many people have voted.
+// While the vote takes proposals, the message shows the proposed options instead.
+export function createVoteBlocks(
+  vote: Vote & { responses?: { userId: string; credits: number }[]; proposals?: ProposalRecord[] },
+  _botUserId: string,
+) {
+  // Participatory budgeting votes show what each option costs
+  const optionCosts = vote.optionCosts as number[] | null;
+  const formatOptions = (options: string[]) =>
+    options
+      .map((option: string, index: number) =>
+        `*${index + 1}.* ${option}${optionCosts ? ` (costs ${optionCosts[index]})` : ""}`
+      )
+      .join("\n");
+
+  // Multi-question votes list the options of each question, with the question's
+  // credits when they differ from the other questions
+  const questions = getVoteQuestions(vote);
+  const showQuestionCredits = questions.some((q) =>
+    q.creditsPerUser !== questions[0].creditsPerUser
+  );
+  const optionsText = questions.length > 1
+    ? questions
+      .map((q, index) =>
+        `*${index + 1}. ${q.title}*${
+          showQuestionCredits ? ` (${q.creditsPerUser} credits)` : ""
+        }\n${formatOptions(q.options)}`
+      )
+      .join("\n\n")
+    : formatOptions(vote.options as unknown as string[]);
+
+  // A vote with a future start time is shown as scheduled until it opens
+  const isScheduled = !vote.isEnded && vote.startTime > new Date();
+  const isNominating = !vote.isEnded && vote.isNominating;
+
+  // Display status based on isEnded flag and start time
   const statusInfo = vote.isEnded
     ? "*Status:* :checkered_flag: Voting has ended"
+    : isNominating
+    ? "*Status:* :bulb: Taking proposed options, voting opens once the creator locks them"
+    : isScheduled
+    ? `*Status:* :calendar: Opens at ${formatSlackDate(vote.startTime)}`
     : "*Status:* :hourglass: Vote in progress";
 
   // Create blocks array and filter out nulls before returning to match SlackBlock[] type
@@ -44,12 +147,41 @@ export function createVoteBlocks(vote: Vote, _botUserId: string) {
     type: "section",
     text: {
       type: "mrkdwn",
-      text: `*Options:*\n${optionsText}`,
+      text: isNominating
+        ? `*Proposed options:*\n${formatProposals(vote.proposals ?? [])}`
+        : `*Options:*\n${optionsText}`,
     },
   });
 
-  // Display credits per user and status info
-  let infoText = `*Credits per user:* ${vote.creditsPerUser}\n${statusInfo}`;
+  // Display the voting mode's settings, e.g. credits per user, and status info
+  const mechanism = getMechanism(vote.mechanism);
+  const settingsText = mechanism.describeSettings({
+    creditsPerUser: vote.creditsPerUser,
+    allowOpposition: vote.allowOpposition,
+    budget: vote.budget,
+  });
+  let infoText = `${settingsText}\n${statusInfo}`;
+
+  // Votes started again after the results were discussed, e.g. planning poker re-votes
+  if (vote.round > 1) {
+    infoText += `\n*Round:* ${vote.round}`;
+  }
+
+  // Show the deadline while the vote is still open
+  if (vote.endTime && !vote.isEnded) {
+    infoText += `\n*Ends:* ${formatSlackDate(vote.endTime)}`;
+  }
+
+  // Tell voters who will see their ballot before they cast it
+  infoText += `\n*Ballots:* ${describeBallotVisibility(vote.ballotVisibility)}`;
+
+  // Tell voters whether the standings can be followed before the vote ends
+  if (!vote.isEnded) {
+    infoText += `\n*Results:* ${
+      RESULTS_VISIBILITY_DESCRIPTIONS[getResultsVisibility(vote)] ??
+        RESULTS_VISIBILITY_DESCRIPTIONS.creator
+    }`;
+  }
 
   // Add information about allowed voters if restrictions exist
   const allowedVoters = vote.allowedVoters as string[] | null;
@@ -57,6 +189,16 @@ export function createVoteBlocks(vote: Vote, _botUserId: string) {
     infoText += `\n*Note:* This vote is restricted to specific users.`;
   }
 
+  // Show participation, counting only users who gave credits (as haveAllVotersVoted does)
+  if (vote.responses && !isNominating) {
+    const voterCount = new Set(
+      vote.responses.filter((response) => response.credits !== 0).map((response) =>
+        response.userId
+      ),
+    ).size;
+    infoText += `\n*Participation:* ${formatParticipation(voterCount, allowedVoters)}`;
+  }
+
   blocks.push({
     type: "section",
     text: {
@@ -68,8 +210,8 @@ export function createVoteBlocks(vote: Vote, _botUserId: string) {
   // Define action buttons based on vote status
   const actionElements = [];
 
-  // Only show Vote button if voting is still open
-  if (!vote.isEnded) {
+  // Only show Vote button if voting is open
+  if (!vote.isEnded && !isScheduled && !isNominating) {
     actionElements.push({
       type: "button",
       text: {
@@ -81,26 +223,99 @@ export function createVoteBlocks(vote: Vote, _botUserId: string) {
     });
   }
 
-  // Only show Results button if vote has ended
-  if (vote.isEnded) {
+  // Let the creator chase allowed voters who haven't voted yet
+  if (
+    !vote.isEnded && !isScheduled && !isNominating && allowedVoters && allowedVoters.length > 0
+  ) {
+    actionElements.push({
+      type: "button",
+      text: {
+        type: "plain_text",
+        text: "Remind non-voters",
+      },
+      value: `remind_${vote.id}`,
+      action_id: "remind_non_voters",
+    });
+  }
+
+  // Channel members propose options, and the creator reviews and locks them
+  if (isNominating) {
+    actionElements.push(
+      {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "Propose option",
+        },
+        value: `propose_${vote.id}`,
+        action_id: "propose_option",
+      },
+      {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "Review proposals",
+        },
+        value: `review_${vote.id}`,
+        action_id: "review_proposals",
+      },
+      {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "Lock options",
+        },
+        style: "primary",
+        value: `lock_${vote.id}`,
+        action_id: "lock_options",
+        confirm: {
+          title: {
+            type: "plain_text",
+            text: "Lock the options?",
+          },
+          text: {
+            type: "mrkdwn",
+            text: "Note: Only the creator of this vote (<@" + vote.creatorId +
+              ">) can lock the options.\n\nLocking opens voting on the proposed options. No more options can be proposed afterwards.",
+          },
+          confirm: {
+            type: "plain_text",
+            text: "Lock options",
+          },
+          deny: {
+            type: "plain_text",
+            text: "Cancel",
+          },
+        },
+      },
+    );
+  }
+
+  // Show the Results button once the vote has ended, or while voting is open unless its
+  // results are hidden. Who can see live results is checked when the button is clicked.
+  const showsLiveResults = !isScheduled && !isNominating &&
+    getResultsVisibility(vote) !== "hidden";
+  if (vote.isEnded || showsLiveResults) {
     actionElements.push({
       type: "button",
       text: {
         type: "plain_text",
-        text: "Results",
+        text: vote.isEnded ? "Results" : "Live Results",
       },
       value: `results_${vote.id}`,
       action_id: "show_vote_results",
     });
   }
 
-  // Add End Vote button if vote is not ended with appropriate warning
+  // Add End Vote button if vote is not ended with appropriate warning.
+  // Some voting modes call ending the vote something else, e.g. revealing the estimates.
   if (!vote.isEnded) {
+    const endVoteLabel = mechanism.endVoteLabel ?? "End Vote";
     actionElements.push({
       type: "button",
       text: {
         type: "plain_text",
-        text: "End Vote",
+        text: endVoteLabel,
       },
       value: `end_${vote.id}`,
       action_id: "end_vote",
@@ -112,11 +327,11 @@ export function createVoteBlocks(vote: Vote, _botUserId: string) {
         text: {
           type: "mrkdwn",
           text: "Note: Only the creator of this vote (<@" + vote.creatorId +
-            ">) can end it.\n\nEnding will close the voting period immediately. All votes cast so far will be counted, but no new votes will be accepted. This action cannot be undone.",
+            ">) can end it.\n\nEnding will close the voting period immediately. All votes cast so far will be counted, but no new votes will be accepted until the creator reopens it with `/qvote reopen`.",
         },
         confirm: {
           type: "plain_text",
-          text: "End Vote",
+          text: endVoteLabel,
         },
         deny: {
           type: "plain_text",
@@ -144,6 +359,154 @@ export function createVoteBlocks(vote: Vote, _botUserId: string) {
   return blocks;
 }
 
+// Describes the votes shown by each list filter
+const VOTE_LIST_FILTER_LABELS: Record<string, string> = {
+  all: "All votes",
+  open: "Open votes",
+  ended: "Ended votes",
+  mine: "Votes you created",
+};
+
+/**
+ * Creates blocks for one page of a channel's vote list
+ */
+export function createVoteListBlocks(
+  votes: (Vote & { participantCount: number })[],
+  list: { filter: string; page: number; pageCount: number; total: number },
+): SlackBlock[] {
+  const now = new Date();
+  const filterLabel = VOTE_LIST_FILTER_LABELS[list.filter] ?? list.filter;
+  const pageLabel = `Page ${list.page + 1} of ${Math.max(list.pageCount, 1)}`;
+
+  const blocks: SlackBlock[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: ":ballot_box_with_ballot: Votes in this channel",
+      },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `${filterLabel} | ${list.total} total | ${pageLabel}`,
+        },
+      ],
+    },
+    {
+      type: "divider",
+    },
+  ];
+
+  if (votes.length === 0) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: "No votes found.",
+      },
+    });
+  }
+
+  for (const vote of votes) {
+    const isScheduled = !vote.isEnded && vote.startTime > now;
+    const status = vote.isEnded
+      ? ":checkered_flag: Ended"
+      : vote.isNominating
+      ? ":bulb: Taking proposals"
+      : isScheduled
+      ? `:calendar: Opens ${formatSlackDate(vote.startTime)}`
+      : ":hourglass: Open";
+    const deadline = vote.endTime ? formatSlackDate(vote.endTime) : "None";
+    const participants = `${vote.participantCount} ${
+      vote.participantCount === 1 ? "participant" : "participants"
+    }`;
+
+    const section: SlackBlock = {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${vote.title}*\n${status} | Created by <@${vote.creatorId}>\n` +
+          `*Deadline:* ${deadline} | ${participants}`,
+      },
+    };
+
+    // Open votes link to the ballot, ended votes to their results and votes
+    // taking proposals to proposing an option
+    if (vote.isEnded) {
+      section.accessory = {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "Results",
+        },
+        value: `results_${vote.id}`,
+        action_id: "show_vote_results",
+      };
+    } else if (vote.isNominating) {
+      section.accessory = {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "Propose option",
+        },
+        value: `propose_${vote.id}`,
+        action_id: "propose_option",
+      };
+    } else if (!isScheduled) {
+      section.accessory = {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "Vote",
+        },
+        value: `vote_${vote.id}`,
+        action_id: "open_vote_modal",
+      };
+    }
+
+    blocks.push(section, { type: "divider" });
+  }
+
+  // Add buttons to move between pages
+  const navigationElements = [];
+
+  if (list.page > 0) {
+    navigationElements.push({
+      type: "button",
+      text: {
+        type: "plain_text",
+        text: "Previous",
+      },
+      value: JSON.stringify({ filter: list.filter, page: list.page - 1 }),
+      action_id: "vote_list_previous_page",
+    });
+  }
+
+  if (list.page + 1 < list.pageCount) {
+    navigationElements.push({
+      type: "button",
+      text: {
+        type: "plain_text",
+        text: "Next",
+      },
+      value: JSON.stringify({ filter: list.filter, page: list.page + 1 }),
+      action_id: "vote_list_next_page",
+    });
+  }
+
+  if (navigationElements.length > 0) {
+    blocks.push({
+      type: "actions",
+      elements: navigationElements,
+    });
+  }
+
+  return blocks;
+}
+
 /**
  * Creates standard message blocks for success messages
  */
@@ -224,7 +587,8 @@ export function createInfoMessageBlocks(
  */
 export function createResultsBlocks(
   vote: Vote,
-  voteResults: { option: string; totalCredits: number }[],
+  voteResults: OptionResult[],
+  questions?: QuestionResults[],
 ): SlackBlock[] {
   const blocks: SlackBlock[] = [
     {
@@ -247,49 +611,280 @@ export function createResultsBlocks(
     });
   }
 
-  // Add quadratic voting explainer
-  blocks.push({
-    type: "section",
-    text: {
-      type: "mrkdwn",
-      text:
-        "_Quadratic voting: votes = √credits. Cost increases quadratically with each vote: 1 vote = 1 credit, 2 votes = 4 credits, etc._",
+  // The vote's mechanism explains and shows its own results,
+  // once per question for multi-question votes
+  const mechanism = getMechanism(vote.mechanism);
+  if (questions && questions.length > 1) {
+    questions.forEach((question, index) => {
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*${index + 1}. ${question.title}*`,
+        },
+      });
+      blocks.push(
+        ...mechanism.createResultsBlocks(
+          { ...vote, options: question.options, creditsPerUser: question.creditsPerUser },
+          question.results,
+        ),
+      );
+    });
+  } else {
+    blocks.push(...mechanism.createResultsBlocks(vote, voteResults));
+  }
+
+  // Votes whose ballots aren't anonymous can show how each voter voted
+  if (vote.ballotVisibility === "creator" || vote.ballotVisibility === "public") {
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: {
+            type: "plain_text",
+            text: vote.ballotVisibility === "creator" ? "Ballots (creator only)" : "Ballots",
+          },
+          value: `ballots_${vote.id}`,
+          action_id: "show_voter_breakdown",
+        },
+      ],
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Creates blocks for the per-voter breakdown of a vote, listing what each voter gave
+ * each option on their ballot, once per question for multi-question votes
+ */
+export function createVoterBreakdownBlocks(
+  vote: Vote,
+  ballots: VoterBallot[],
+): SlackBlock[] {
+  const questions = getVoteQuestions(vote);
+
+  const blocks: SlackBlock[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `🗳️ Ballots: ${vote.title}`,
+      },
     },
-  });
+  ];
 
-  // Calculate total votes (square root of credits)
-  const totalVotes = voteResults.reduce(
-    (sum, r) => sum + Math.sqrt(r.totalCredits),
-    0,
-  );
+  questions.forEach((question, questionIndex) => {
+    const lines = ballots
+      .filter((ballot) => ballot.questionIndex === questionIndex)
+      .map((ballot) =>
+        `<@${ballot.userId}>: ${
+          ballot.credits
+            .flatMap((credits, optionIndex) =>
+              credits !== 0 ? [`${question.options[optionIndex]} (${credits})`] : []
+            )
+            .join(", ")
+        }`
+      );
 
-  // Format results
-  const resultsText = voteResults
-    .map((r, i) => {
-      // Calculate actual votes (square root of credits)
-      const actualVotes = Math.round(Math.sqrt(r.totalCredits) * 10) / 10;
-      const percentage = totalVotes > 0
-        ? Math.round((Math.sqrt(r.totalCredits) / totalVotes) * 100)
-        : 0;
-
-      // Create visual bar based on percentage
-      const barLength = Math.max(1, Math.round(percentage / 5)); // Max 20 segments (for 100%)
-      const bar = "█".repeat(barLength);
-
-      // Show both votes and credits with visual bar
-      return `*${
-        i + 1
-      }.* ${r.option}: ${actualVotes} votes (${percentage}%)\n${bar} ${r.totalCredits} credits`;
-    })
-    .join("\n\n");
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `${questions.length > 1 ? `*${questionIndex + 1}. ${question.title}*\n` : ""}${
+          lines.length > 0 ? lines.join("\n") : "_Nobody has voted yet._"
+        }`,
+      },
+    });
+  });
 
   blocks.push({
-    type: "section",
-    text: {
-      type: "mrkdwn",
-      text: resultsText || "No votes were cast.",
+    type: "context",
+    elements: [
+      {
+        type: "mrkdwn",
+        text: `${
+          getMechanism(vote.mechanism).name
+        } | Each option shows the credits, rank or grade the voter gave it`,
+      },
+    ],
+  });
+
+  return blocks;
+}
+
+// List a retro item with the duplicates grouped with it and, unless the retro is
+// anonymous, who added them
+function formatRetroGroup(group: RetroGroup, prefix: string): string {
+  const authors = group.authorIds.length > 0
+    ? ` (${group.authorIds.map((userId) => `<@${userId}>`).join(", ")})`
+    : "";
+  const grouped = group.groupedTexts.map((text) => `\n      ↳ _${text}_`).join("");
+
+  return `${prefix} ${group.text}${authors}${grouped}`;
+}
+
+/**
+ * Creates blocks for the board message of a retro session. While the session collects
+ * items, the board has buttons to add and group items and to start the vote on them.
+ */
+export function createRetroBoardBlocks(
+  session: RetroSession & { items: RetroItemRecord[] },
+): SlackBlock[] {
+  const columns = session.columns as string[];
+  const groups = getRetroGroups(session);
+
+  const status = session.status === "collecting"
+    ? ":pencil2: Collecting items"
+    : session.status === "voting"
+    ? `:ballot_box_with_ballot: Voting on ${groups.length} items`
+    : ":checkered_flag: Ended, see the action list in the vote's thread";
+
+  const blocks: SlackBlock[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `:memo: Retro: ${session.title}`,
+      },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `Facilitated by <@${session.facilitatorId}>${
+            session.isAnonymous ? " | Items are anonymous" : ""
+          } | ${status}`,
+        },
+      ],
     },
+    {
+      type: "divider",
+    },
+  ];
+
+  // Number the items the same way the grouping modal does
+  let itemNumber = 0;
+  columns.forEach((column, columnIndex) => {
+    const columnGroups = groups.filter((group) => group.column === columnIndex);
+    const items = columnGroups.length > 0
+      ? columnGroups.map((group) => formatRetroGroup(group, `*${++itemNumber}.*`)).join("\n")
+      : "_No items yet._";
+
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${column}*\n${items}`,
+      },
+    });
   });
 
+  if (session.status === "collecting") {
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: {
+            type: "plain_text",
+            text: "Add item",
+          },
+          style: "primary",
+          value: `retro_add_${session.id}`,
+          action_id: "add_retro_item",
+        },
+        {
+          type: "button",
+          text: {
+            type: "plain_text",
+            text: "Group items",
+          },
+          value: `retro_group_${session.id}`,
+          action_id: "group_retro_items",
+        },
+        {
+          type: "button",
+          text: {
+            type: "plain_text",
+            text: "Start vote",
+          },
+          value: `retro_vote_${session.id}`,
+          action_id: "start_retro_vote",
+          confirm: {
+            title: {
+              type: "plain_text",
+              text: "Start the vote?",
+            },
+            text: {
+              type: "mrkdwn",
+              text: "No more items can be added or grouped once voting starts.",
+            },
+            confirm: {
+              type: "plain_text",
+              text: "Start vote",
+            },
+            deny: {
+              type: "plain_text",
+              text: "Cancel",
+            },
+          },
+        },
+      ],
+    });
+  }
+
   return blocks;
 }
+
+/**
+ * Creates blocks for the ranked action list of a retro, from the results of its vote.
+ * Items nobody voted for are left off the list.
+ */
+export function createRetroActionListBlocks(
+  session: RetroSession & { items: RetroItemRecord[] },
+  voteResults: OptionResult[],
+): SlackBlock[] {
+  const groups = getRetroGroups(session);
+  const actions = voteResults.filter((result) => result.voters > 0);
+
+  const lines = actions.map((result) => {
+    const group = groups.find((group) => group.option === result.option);
+    const votes = Math.round(result.votes * 100) / 100;
+    const grouped = group && group.groupedTexts.length > 0
+      ? `\n      ↳ Also: ${group.groupedTexts.join(", ")}`
+      : "";
+
+    return `*${result.rank}.* ${result.option} (${votes} ${
+      votes === 1 ? "vote" : "votes"
+    })${grouped}`;
+  });
+
+  return [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `:white_check_mark: Action list: ${session.title}`,
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: lines.length > 0 ? lines.join("\n") : "_Nobody voted on the retro's items._",
+      },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `Ranked by the team's quadratic vote | Facilitated by <@${session.facilitatorId}>`,
+        },
+      ],
+    },
+  ];
+}
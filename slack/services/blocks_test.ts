@@ -1,12 +1,20 @@
-import { assertEquals, assertStringIncludes } from "@std/assert";
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
 import {
   createErrorMessageBlocks,
   createInfoMessageBlocks,
   createResultsBlocks,
+  createRetroActionListBlocks,
+  createRetroBoardBlocks,
   createSuccessMessageBlocks,
   createVoteBlocks,
+  createVoteListBlocks,
+  createVoterBreakdownBlocks,
+  formatParticipation,
+  formatSlackDate,
   SlackBlock,
 } from "./blocks.ts";
+import { RetroSession, Vote } from "generated/index.d.ts";
+import type { OptionResult } from "@mechanisms/index.ts";
 
 // Define more specific types for testing
 interface HeaderBlock extends SlackBlock {
@@ -42,9 +50,9 @@ interface ElementsBlock extends SlackBlock {
   }>;
 }
 
-Deno.test("createVoteBlocks creates proper UI for active vote", () => {
-  // Create mock vote data for an active vote
-  const vote = {
+// Create a mock vote with sensible defaults for an active vote
+function createMockVote(overrides: Partial<Vote> = {}): Vote {
+  return {
     id: "vote-123",
     workspaceId: "workspace-123",
     channelId: "channel-123",
@@ -54,12 +62,33 @@ Deno.test("createVoteBlocks creates proper UI for active vote", () => {
     options: ["Option 1", "Option 2", "Option 3"],
     allowedVoters: null,
     creditsPerUser: 100,
+    mechanism: "quadratic",
+    allowOpposition: false,
+    budget: null,
+    optionCosts: null,
+    round: 1,
+    nextRoundId: null,
+    questions: null,
     startTime: new Date(),
-    endTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    endTime: null,
     isEnded: false,
+    isStarted: true,
+    isNominating: false,
+    messageChannel: null,
+    messageTs: null,
+    broadcastResults: false,
+    ballotVisibility: "anonymous",
+    resultsVisibility: "creator",
     createdAt: new Date(),
     updatedAt: new Date(),
+    ...overrides,
   };
+}
+
+Deno.test("createVoteBlocks creates proper UI for active vote", () => {
+  // Create mock vote data for an active vote
+  const endTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const vote = createMockVote({ endTime });
 
   // Generate blocks for the active vote
   const blocks = createVoteBlocks(vote, "bot-123");
@@ -87,18 +116,28 @@ Deno.test("createVoteBlocks creates proper UI for active vote", () => {
     "*Status:* :hourglass: Vote in progress",
   );
 
-  // Verify action buttons - for active vote should have Vote and End Vote only (no Results)
+  // Verify the deadline is shown as a Slack date token
+  assertStringIncludes(
+    (blocks[3] as SectionBlock).text.text,
+    `*Ends:* <!date^${Math.floor(endTime.getTime() / 1000)}^`,
+  );
+
+  // Verify action buttons - for active vote should have Vote, Live Results and End Vote
   assertEquals(blocks[4].type, "actions");
   const elements = (blocks[4] as ElementsBlock).elements;
-  assertEquals(elements.length, 2);
+  assertEquals(elements.length, 3);
 
   // Vote button
   assertEquals(elements[0].action_id, "open_vote_modal");
   assertEquals(elements[0].text?.text, "Vote");
 
-  // End Vote button (no Results button for active votes)
-  assertEquals(elements[1].action_id, "end_vote");
-  assertEquals(elements[1].text?.text, "End Vote");
+  // Live Results button, as the creator can see the results while the vote is open
+  assertEquals(elements[1].action_id, "show_vote_results");
+  assertEquals(elements[1].text?.text, "Live Results");
+
+  // End Vote button
+  assertEquals(elements[2].action_id, "end_vote");
+  assertEquals(elements[2].text?.text, "End Vote");
 
   // Verify creator info in footer
   assertEquals(blocks[5].type, "context");
@@ -116,22 +155,10 @@ Deno.test("createVoteBlocks creates proper UI for active vote", () => {
 
 Deno.test("createVoteBlocks creates proper UI for ended vote", () => {
   // Create mock vote data for an ended vote
-  const vote = {
-    id: "vote-123",
-    workspaceId: "workspace-123",
-    channelId: "channel-123",
-    creatorId: "creator-123",
-    title: "Test Vote",
-    description: "This is a test vote",
-    options: ["Option 1", "Option 2", "Option 3"],
-    allowedVoters: null,
-    creditsPerUser: 100,
-    startTime: new Date(),
+  const vote = createMockVote({
     endTime: new Date(Date.now() - 24 * 60 * 60 * 1000), // In the past
     isEnded: true, // Vote is ended
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  });
 
   // Generate blocks for the ended vote
   const blocks = createVoteBlocks(vote, "bot-123");
@@ -153,24 +180,57 @@ Deno.test("createVoteBlocks creates proper UI for ended vote", () => {
   assertEquals(elements[0].text?.text, "Results");
 });
 
+Deno.test("createVoteBlocks only shows live results unless they are hidden", () => {
+  const actionIds = (vote: Vote) =>
+    (createVoteBlocks(vote, "bot-123")[4] as ElementsBlock).elements.map((e) => e.action_id);
+  const infoText = (vote: Vote) => (createVoteBlocks(vote, "bot-123")[3] as SectionBlock).text.text;
+
+  const hiddenVote = createMockVote({ resultsVisibility: "hidden" });
+  assertEquals(actionIds(hiddenVote), ["open_vote_modal", "end_vote"]);
+  assertStringIncludes(infoText(hiddenVote), "*Results:* :see_no_evil: Hidden until the vote ends");
+
+  const liveVote = createMockVote({ resultsVisibility: "everyone" });
+  assertEquals(actionIds(liveVote), ["open_vote_modal", "show_vote_results", "end_vote"]);
+  assertEquals(
+    (createVoteBlocks(liveVote, "bot-123")[4] as ElementsBlock).elements[1].text?.text,
+    "Live Results",
+  );
+});
+
+Deno.test("createVoteBlocks shows scheduled votes as not open yet", () => {
+  const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const vote = createMockVote({ startTime, isStarted: false });
+
+  const blocks = createVoteBlocks(vote, "bot-123");
+
+  // Verify status shows when the vote opens
+  assertStringIncludes(
+    (blocks[3] as SectionBlock).text.text,
+    `*Status:* :calendar: Opens at <!date^${Math.floor(startTime.getTime() / 1000)}^`,
+  );
+
+  // Verify there is no Vote button until the vote opens
+  const elements = (blocks[4] as ElementsBlock).elements;
+  assertEquals(elements.some((element) => element.action_id === "open_vote_modal"), false);
+  assertEquals(elements.some((element) => element.action_id === "end_vote"), true);
+});
+
+Deno.test("formatSlackDate creates a Slack date token with a fallback", () => {
+  const date = new Date("2025-03-20T15:30:00Z");
+
+  const formatted = formatSlackDate(date);
+
+  assertEquals(
+    formatted,
+    "<!date^1742484600^{date_short_pretty} at {time}|Thu, 20 Mar 2025 15:30:00 GMT>",
+  );
+});
+
 Deno.test("createVoteBlocks handles restricted voters correctly", () => {
   // Create mock vote data with allowed voters restriction
-  const vote = {
-    id: "vote-123",
-    workspaceId: "workspace-123",
-    channelId: "channel-123",
-    creatorId: "creator-123",
-    title: "Test Vote",
-    description: "This is a test vote",
-    options: ["Option 1", "Option 2", "Option 3"],
+  const vote = createMockVote({
     allowedVoters: ["user-1", "user-2"], // Only specific users can vote
-    creditsPerUser: 100,
-    startTime: new Date(),
-    endTime: null,
-    isEnded: false,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  });
 
   // Generate blocks
   const blocks = createVoteBlocks(vote, "bot-123");
@@ -181,6 +241,170 @@ Deno.test("createVoteBlocks handles restricted voters correctly", () => {
     (blocks[3] as SectionBlock).text.text,
     "*Note:* This vote is restricted to specific users",
   );
+
+  // Verify the creator can remind allowed voters who haven't voted
+  const remindButton = (blocks[4] as ElementsBlock).elements.find(
+    (element) => element.action_id === "remind_non_voters",
+  );
+  assertEquals(remindButton?.value, "remind_vote-123");
+});
+
+Deno.test("createVoteBlocks shows participation when responses are included", () => {
+  const responses = [
+    { userId: "user-1", credits: 4 },
+    { userId: "user-1", credits: 9 },
+    { userId: "user-2", credits: 16 },
+    { userId: "user-3", credits: 0 }, // Doesn't count as voted
+  ];
+
+  const openVote = createMockVote();
+  assertEquals(
+    (createVoteBlocks(openVote, "bot-123")[3] as SectionBlock).text.text.includes("Participation"),
+    false,
+  );
+  assertStringIncludes(
+    (createVoteBlocks({ ...openVote, responses }, "bot-123")[3] as SectionBlock).text.text,
+    "*Participation:* 2 people have voted",
+  );
+
+  const restrictedVote = createMockVote({ allowedVoters: ["user-1", "user-2", "user-3"] });
+  assertStringIncludes(
+    (createVoteBlocks({ ...restrictedVote, responses }, "bot-123")[3] as SectionBlock).text.text,
+    "*Participation:* 2 of 3 eligible voters have voted",
+  );
+});
+
+Deno.test("createVoteBlocks describes the settings of the voting mode", () => {
+  const infoText = (vote: Vote) => (createVoteBlocks(vote, "bot-123")[3] as SectionBlock).text.text;
+
+  assertStringIncludes(infoText(createMockVote()), "*Credits per user:* 100");
+  assertStringIncludes(
+    infoText(createMockVote({ allowOpposition: true })),
+    "Votes can also be cast against options",
+  );
+  assertStringIncludes(
+    infoText(createMockVote({ mechanism: "dot", creditsPerUser: 5 })),
+    "*Dots per voter:* 5",
+  );
+  assertStringIncludes(infoText(createMockVote({ mechanism: "approval" })), "*Approval voting:*");
+  assertStringIncludes(
+    infoText(createMockVote({ mechanism: "budget", budget: 1000 })),
+    "*Budget:* 1000",
+  );
+});
+
+Deno.test("createVoteBlocks shows the planning poker round and reveal button", () => {
+  const blocks = createVoteBlocks(createMockVote({ mechanism: "poker", round: 2 }), "bot-123");
+
+  assertStringIncludes((blocks[3] as SectionBlock).text.text, "*Round:* 2");
+  const endButton = (blocks[4] as ElementsBlock).elements.find((element) =>
+    element.action_id === "end_vote"
+  );
+  assertEquals(endButton?.text?.text, "Reveal");
+});
+
+Deno.test("createVoteBlocks shows the cost of each option for participatory budgeting", () => {
+  const vote = createMockVote({ mechanism: "budget", budget: 50, optionCosts: [30, 20, 10] });
+  const optionsText = (createVoteBlocks(vote, "bot-123")[2] as SectionBlock).text.text;
+
+  assertStringIncludes(optionsText, "*1.* Option 1 (costs 30)");
+  assertStringIncludes(optionsText, "*3.* Option 3 (costs 10)");
+});
+
+Deno.test("createVoteBlocks lists the options of each question", () => {
+  const vote = createMockVote({
+    options: ["Lisbon", "Berlin"],
+    questions: [
+      { title: "Where?", options: ["Lisbon", "Berlin"], creditsPerUser: 100 },
+      { title: "When?", options: ["May", "June"], creditsPerUser: 25 },
+    ],
+  });
+  const optionsText = (createVoteBlocks(vote, "bot-123")[2] as SectionBlock).text.text;
+
+  assertStringIncludes(optionsText, "*1. Where?* (100 credits)\n*1.* Lisbon\n*2.* Berlin");
+  assertStringIncludes(optionsText, "*2. When?* (25 credits)\n*1.* May\n*2.* June");
+});
+
+Deno.test("createVoteBlocks shows the proposed options while taking proposals", () => {
+  const vote = {
+    ...createMockVote({ isNominating: true }),
+    proposals: [
+      { id: "p1", text: "Pizza", proposerId: "U1", status: "proposed", mergedIntoId: null },
+      { id: "p2", text: "Pizzeria", proposerId: "U2", status: "merged", mergedIntoId: "p1" },
+      { id: "p3", text: "Nothing", proposerId: "U3", status: "rejected", mergedIntoId: null },
+      { id: "p4", text: "Sushi", proposerId: "U3", status: "proposed", mergedIntoId: null },
+    ],
+  };
+  const blocks = createVoteBlocks(vote, "bot-123");
+
+  const optionsText = (blocks[2] as SectionBlock).text.text;
+  assertEquals(
+    optionsText,
+    "*Proposed options:*\n*1.* Pizza (proposed by <@U1>, <@U2>)\n*2.* Sushi (proposed by <@U3>)",
+  );
+  assertStringIncludes((blocks[3] as SectionBlock).text.text, "Taking proposed options");
+
+  // Voting opens once the options are locked
+  const actionIds = (blocks[4] as ElementsBlock).elements.map((element) => element.action_id);
+  assertEquals(actionIds, ["propose_option", "review_proposals", "lock_options", "end_vote"]);
+});
+
+Deno.test("formatParticipation handles singular and restricted counts", () => {
+  assertEquals(formatParticipation(0, null), "0 people have voted");
+  assertEquals(formatParticipation(1, null), "1 person has voted");
+  assertEquals(formatParticipation(1, []), "1 person has voted");
+  assertEquals(formatParticipation(1, ["user-1", "user-2"]), "1 of 2 eligible voters has voted");
+});
+
+Deno.test("createVoteListBlocks lists votes with status, participants and buttons", () => {
+  const endTime = new Date("2025-03-20T15:30:00Z");
+  const votes = [
+    { ...createMockVote({ id: "vote-open", title: "Open Vote", endTime }), participantCount: 3 },
+    {
+      ...createMockVote({ id: "vote-ended", title: "Ended Vote", isEnded: true }),
+      participantCount: 1,
+    },
+  ];
+
+  const blocks = createVoteListBlocks(votes, { filter: "all", page: 0, pageCount: 2, total: 7 });
+
+  // Verify the summary line
+  const context = blocks[1] as ElementsBlock;
+  assertEquals(context.elements[0].text, "All votes | 7 total | Page 1 of 2");
+
+  // Verify the open vote shows its deadline, participation and a Vote button
+  const openVote = blocks[3] as SectionBlock & { accessory: { action_id: string; value: string } };
+  assertStringIncludes(openVote.text.text, "*Open Vote*");
+  assertStringIncludes(openVote.text.text, ":hourglass: Open | Created by <@creator-123>");
+  assertStringIncludes(openVote.text.text, `*Deadline:* ${formatSlackDate(endTime)}`);
+  assertStringIncludes(openVote.text.text, "3 participants");
+  assertEquals(openVote.accessory.action_id, "open_vote_modal");
+  assertEquals(openVote.accessory.value, "vote_vote-open");
+
+  // Verify the ended vote links to its results
+  const endedVote = blocks[5] as SectionBlock & { accessory: { action_id: string; value: string } };
+  assertStringIncludes(endedVote.text.text, ":checkered_flag: Ended");
+  assertStringIncludes(endedVote.text.text, "*Deadline:* None | 1 participant");
+  assertEquals(endedVote.accessory.action_id, "show_vote_results");
+  assertEquals(endedVote.accessory.value, "results_vote-ended");
+
+  // Verify only the Next button is shown on the first page
+  const navigation = blocks[blocks.length - 1] as ElementsBlock;
+  assertEquals(navigation.type, "actions");
+  assertEquals(navigation.elements.length, 1);
+  assertEquals(navigation.elements[0].action_id, "vote_list_next_page");
+  assertEquals(navigation.elements[0].value, JSON.stringify({ filter: "all", page: 1 }));
+});
+
+Deno.test("createVoteListBlocks handles an empty list", () => {
+  const blocks = createVoteListBlocks([], { filter: "mine", page: 0, pageCount: 0, total: 0 });
+
+  assertEquals(
+    (blocks[1] as ElementsBlock).elements[0].text,
+    "Votes you created | 0 total | Page 1 of 1",
+  );
+  assertEquals((blocks[3] as SectionBlock).text.text, "No votes found.");
+  assertEquals(blocks.some((block) => block.type === "actions"), false);
 });
 
 Deno.test("createSuccessMessageBlocks creates proper success message UI", () => {
@@ -245,28 +469,18 @@ Deno.test("createInfoMessageBlocks creates proper info message UI", () => {
 
 Deno.test("createResultsBlocks creates proper results display", () => {
   // Mock vote data
-  const vote = {
-    id: "vote-123",
-    workspaceId: "workspace-123",
-    channelId: "channel-123",
-    creatorId: "creator-123",
+  const vote = createMockVote({
     title: "Test Vote Results",
     description: "This is a vote with results",
-    options: ["Option 1", "Option 2", "Option 3"],
-    allowedVoters: null,
-    creditsPerUser: 100,
-    startTime: new Date(),
     endTime: new Date(),
     isEnded: true,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  });
 
-  // Mock vote results - option, totalCredits pairs
+  // Mock vote results, as ranked by VotesService
   const voteResults = [
-    { option: "Option 1", totalCredits: 64 }, // 8 votes (sqrt(64))
-    { option: "Option 2", totalCredits: 36 }, // 6 votes (sqrt(36))
-    { option: "Option 3", totalCredits: 9 }, // 3 votes (sqrt(9))
+    { option: "Option 1", votes: 8, totalCredits: 40, voters: 2, rank: 1 }, // √36 + √4
+    { option: "Option 2", votes: 6, totalCredits: 36, voters: 1, rank: 2 },
+    { option: "Option 3", votes: 3, totalCredits: 9, voters: 1, rank: 3 },
   ];
 
   const blocks = createResultsBlocks(vote, voteResults);
@@ -293,38 +507,119 @@ Deno.test("createResultsBlocks creates proper results display", () => {
 
   // Check Option 1 details
   assertStringIncludes(resultsText, "*1.* Option 1: 8 votes (47%)");
-  assertStringIncludes(resultsText, "64 credits");
+  assertStringIncludes(resultsText, "40 credits from 2 voters");
 
   // Check Option 2 details
   assertStringIncludes(resultsText, "*2.* Option 2: 6 votes (35%)");
-  assertStringIncludes(resultsText, "36 credits");
+  assertStringIncludes(resultsText, "36 credits from 1 voter");
 
   // Check Option 3 details
   assertStringIncludes(resultsText, "*3.* Option 3: 3 votes (18%)");
-  assertStringIncludes(resultsText, "9 credits");
+  assertStringIncludes(resultsText, "9 credits from 1 voter");
+});
+
+Deno.test("createResultsBlocks shows for, against and net votes when opposition is allowed", () => {
+  const vote = createMockVote({ allowOpposition: true, endTime: new Date(), isEnded: true });
+
+  const voteResults = [
+    {
+      option: "Option 2",
+      votes: 3,
+      totalCredits: 5,
+      votesFor: 3,
+      votesAgainst: 0,
+      voters: 2,
+      rank: 1,
+    },
+    {
+      option: "Option 3",
+      votes: 0,
+      totalCredits: 0,
+      votesFor: 0,
+      votesAgainst: 0,
+      voters: 0,
+      rank: 2,
+    },
+    {
+      option: "Option 1",
+      votes: -1,
+      totalCredits: 41,
+      votesFor: 4,
+      votesAgainst: 5,
+      voters: 2,
+      rank: 3,
+    },
+  ];
+
+  const blocks = createResultsBlocks(vote, voteResults);
+
+  assertStringIncludes((blocks[2] as SectionBlock).text.text, "net votes");
+
+  const resultsText = (blocks[3] as SectionBlock).text.text;
+  assertStringIncludes(resultsText, "*1.* Option 2: +3 net votes");
+  assertStringIncludes(resultsText, "3 for, 0 against (5 credits)");
+  assertStringIncludes(resultsText, "*3.* Option 1: -1 net votes");
+  assertStringIncludes(resultsText, "4 for, 5 against (41 credits from 2 voters)");
+});
+
+Deno.test("createResultsBlocks shows approvals for approval votes", () => {
+  const vote = createMockVote({ mechanism: "approval", endTime: new Date(), isEnded: true });
+
+  const voteResults = [
+    { option: "Option 2", votes: 3, totalCredits: 3, voters: 3, rank: 1 },
+    { option: "Option 1", votes: 1, totalCredits: 1, voters: 1, rank: 2 },
+    { option: "Option 3", votes: 0, totalCredits: 0, voters: 0, rank: 3 },
+  ];
+
+  const blocks = createResultsBlocks(vote, voteResults);
+
+  assertStringIncludes((blocks[2] as SectionBlock).text.text, "Approval voting");
+
+  const resultsText = (blocks[3] as SectionBlock).text.text;
+  assertStringIncludes(resultsText, "*1.* Option 2: 3 approvals (75%)");
+  assertStringIncludes(resultsText, "*2.* Option 1: 1 approval (25%)");
+});
+
+Deno.test("createResultsBlocks shows the results of each question", () => {
+  const vote = createMockVote({ mechanism: "approval", isEnded: true });
+  const questions = [
+    {
+      title: "Where?",
+      options: ["Lisbon", "Berlin"],
+      creditsPerUser: 100,
+      results: [{ option: "Berlin", votes: 2, totalCredits: 2, voters: 2, rank: 1 }],
+    },
+    {
+      title: "When?",
+      options: ["May", "June"],
+      creditsPerUser: 100,
+      results: [{ option: "June", votes: 1, totalCredits: 1, voters: 1, rank: 1 }],
+    },
+  ];
+
+  const blocks = createResultsBlocks(vote, questions[0].results, questions);
+  const texts = blocks.map((block) => (block as SectionBlock).text.text);
+
+  assertEquals(texts.filter((text) => text.startsWith("_Approval voting")).length, 2);
+  const where = texts.indexOf("*1. Where?*");
+  const when = texts.indexOf("*2. When?*");
+  assert(where > 0 && when > where);
+  assertStringIncludes(texts.slice(where, when).join("\n"), "*1.* Berlin: 2 approvals");
+  assertStringIncludes(texts.slice(when).join("\n"), "*1.* June: 1 approval");
 });
 
 Deno.test("createResultsBlocks handles empty results", () => {
   // Mock vote data with no results
-  const vote = {
-    id: "vote-123",
-    workspaceId: "workspace-123",
-    channelId: "channel-123",
-    creatorId: "creator-123",
+  const vote = createMockVote({
     title: "Test Vote No Results",
     description: null, // No description
     options: ["Option 1", "Option 2"],
-    allowedVoters: null,
-    creditsPerUser: 100,
-    startTime: new Date(),
     endTime: new Date(),
     isEnded: true,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  });
 
   // Empty results array
-  const voteResults: { option: string; totalCredits: number }[] = [];
+  const voteResults: OptionResult[] = [];
 
   const blocks = createResultsBlocks(vote, voteResults);
 
@@ -340,3 +635,105 @@ Deno.test("createResultsBlocks handles empty results", () => {
   assertEquals(lastBlock.type, "section");
   assertStringIncludes((lastBlock as SectionBlock).text.text, "No votes were cast.");
 });
+
+// A retro session with one item per column, the first two grouped with another item
+function createMockRetroSession(overrides: Partial<RetroSession> = {}) {
+  const item = (id: string, column: number, text: string, groupedIntoId: string | null = null) => ({
+    id,
+    column,
+    text,
+    authorId: "U12345678",
+    groupedIntoId,
+  });
+
+  return {
+    id: "retro-123",
+    workspaceId: "workspace-123",
+    channelId: "C12345678",
+    facilitatorId: "U12345678",
+    title: "Sprint 42",
+    columns: ["Start", "Stop", "Continue"],
+    isAnonymous: false,
+    status: "collecting",
+    voteId: null,
+    messageChannel: null,
+    messageTs: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    items: [
+      item("item-1", 1, "Long meetings"),
+      item("item-2", 0, "Pairing"),
+      item("item-3", 1, "Long standups", "item-1"),
+    ],
+    ...overrides,
+  };
+}
+
+Deno.test("createRetroBoardBlocks lists each column's items", () => {
+  const blocks = createRetroBoardBlocks(createMockRetroSession());
+  const text = JSON.stringify(blocks);
+
+  assertStringIncludes(text, "*Start*\\n*1.* Pairing (<@U12345678>)");
+  assertStringIncludes(text, "*2.* Long meetings (<@U12345678>)\\n      ↳ _Long standups_");
+  assertStringIncludes(text, "*Continue*\\n_No items yet._");
+  assertStringIncludes(text, "start_retro_vote");
+
+  // The board can't be changed once voting started
+  const voting = JSON.stringify(
+    createRetroBoardBlocks(createMockRetroSession({ status: "voting" })),
+  );
+  assertStringIncludes(voting, "Voting on 2 items");
+  assertEquals(voting.includes("add_retro_item"), false);
+});
+
+Deno.test("createRetroActionListBlocks ranks the voted items", () => {
+  const blocks = createRetroActionListBlocks(createMockRetroSession(), [
+    { option: "Stop: Long meetings", votes: 3, totalCredits: 9, voters: 2, rank: 1 },
+    { option: "Start: Pairing", votes: 0, totalCredits: 0, voters: 0, rank: 2 },
+  ]);
+  const text = (blocks[1] as SectionBlock).text.text;
+
+  assertEquals(text, "*1.* Stop: Long meetings (3 votes)\n      ↳ Also: Long standups");
+});
+
+Deno.test("createVoteBlocks tells voters who can see their ballot", () => {
+  const anonymous = JSON.stringify(createVoteBlocks(createMockVote(), "B12345678"));
+  assertStringIncludes(anonymous, "*Ballots:* :lock: Anonymous, nobody can see how you voted");
+
+  const visible = JSON.stringify(
+    createVoteBlocks(createMockVote({ ballotVisibility: "creator" }), "B12345678"),
+  );
+  assertStringIncludes(
+    visible,
+    "*Ballots:* :bust_in_silhouette: The creator can see how you voted",
+  );
+});
+
+Deno.test("createResultsBlocks only offers the ballots of votes that aren't anonymous", () => {
+  const results: OptionResult[] = [
+    { option: "Option 1", votes: 3, totalCredits: 9, voters: 1, rank: 1 },
+  ];
+
+  const anonymous = JSON.stringify(createResultsBlocks(createMockVote({ isEnded: true }), results));
+  assertEquals(anonymous.includes("show_voter_breakdown"), false);
+
+  const visible = JSON.stringify(
+    createResultsBlocks(createMockVote({ isEnded: true, ballotVisibility: "public" }), results),
+  );
+  assertStringIncludes(visible, '"action_id":"show_voter_breakdown"');
+});
+
+Deno.test("createVoterBreakdownBlocks lists what each voter gave each option", () => {
+  const blocks = createVoterBreakdownBlocks(
+    createMockVote({ options: ["Option 1", "Option 2"], ballotVisibility: "public" }),
+    [
+      { userId: "U1", questionIndex: 0, credits: [9, 16] },
+      { userId: "U2", questionIndex: 0, credits: [0, 4] },
+    ],
+  );
+
+  assertEquals(
+    (blocks[1] as SectionBlock).text.text,
+    "<@U1>: Option 1 (9), Option 2 (16)\n<@U2>: Option 2 (4)",
+  );
+});
@@ -1,9 +1,42 @@
 import { Workspace } from "generated/index.d.ts";
 import { openVoteCreationModal } from "./interactions.ts";
-import { createErrorMessageBlocks, createInfoMessageBlocks, SlackBlock } from "./blocks.ts";
+import {
+  parseVoteOptions,
+  parseVoteQuestions,
+  postVoteToChannel,
+  validateVoteFields,
+} from "./interactions/vote-creation.ts";
+import { createVoteListMessage, VOTE_LIST_FILTERS } from "./interactions/handlers/vote-list.ts";
+import type { VoteCreationModalValues } from "./interactions/templates.ts";
+import {
+  announceVoteResults,
+  canSeeResults,
+  createResultsNotAvailableMessage,
+  updateVoteMessage,
+  validateVoteCreator,
+} from "./interactions/vote-utils.ts";
+import { announceRetroActionList, postRetroBoard } from "./interactions/retro.ts";
+import {
+  createErrorMessageBlocks,
+  createInfoMessageBlocks,
+  createResultsBlocks,
+  createSuccessMessageBlocks,
+  SlackBlock,
+} from "./blocks.ts";
 import logger from "@utils/logger.ts";
+import { retroService, votesService } from "@db/prisma.ts";
+import { DEFAULT_RETRO_COLUMNS } from "@db/retro.ts";
+import {
+  type BallotVisibility,
+  getResultsVisibility,
+  type ResultsVisibility,
+  type VoteListFilter,
+} from "@db/votes.ts";
+import { NotFoundError, UnauthorizedError } from "@db/errors.ts";
 import { postToSlackApi } from "@utils/http-client.ts";
 import { sanitizeUserError } from "@utils/error-sanitization.ts";
+import { parseDuration } from "@utils/duration.ts";
+import { DEFAULT_MECHANISM, MECHANISMS } from "@mechanisms/index.ts";
 
 /**
  * Try to join a channel
@@ -103,18 +136,43 @@ export async function handleQVoteCommand(
           "QVote allows you to create and manage quadratic votes in your Slack workspace.\n\n" +
             "*Commands:*\n" +
             "• `/qvote` - Opens the vote creation modal where you can create a new vote\n" +
+            '• `/qvote "Title" "Option 1" "Option 2" --desc "Description" --credits 25 --time 2h` - Creates and posts a vote directly, add `--mode approval|dot|irv|schulze|judgment|score|budget|poker` to use another voting mode (with `--budget 1000` and options like `"Refactor auth | 30"` for budget, or `--scale fibonacci|tshirt` instead of options for poker), `--oppose` to allow votes against options, `--nominate` to let channel members propose options before voting opens, `--ballots creator|public` to let the creator or everyone see how each person voted, `--results hidden|everyone` to hide the live results from the creator too or show them to everyone or `--broadcast` to also send the results to the channel\n' +
+            "• `/qvote list [open|ended|mine]` - Lists the votes in this channel\n" +
+            '• `/qvote retro "Title" [--anonymous]` - Starts a retro that collects Start, Stop and Continue items, lets you group them and then votes on them for a ranked action list\n' +
+            "• `/qvote results <vote ID> [--share]` - Shows the results of a vote, add `--share` to post them to the channel\n" +
+            "• `/qvote end <vote ID>` - Ends a vote you created\n" +
+            "• `/qvote reopen <vote ID>` - Reopens an ended vote you created\n" +
             "• `/qvote help` - Shows this help message\n\n" +
             "When creating a vote, you can:\n" +
             "• Set a title and description\n" +
             "• Add multiple voting options\n" +
+            '• Ask several questions on one ballot, starting each with a line like "# What went well?"\n' +
+            `• Choose the voting mode: ${
+              Object.values(MECHANISMS).map((mechanism) => mechanism.name).join(", ")
+            }\n` +
             "• Set the available voting credits\n" +
-            "• Set an auto-close time\n\n" +
+            "• Allow votes against options\n" +
+            "• Let channel members propose options, then lock them to open voting\n" +
+            "• Set an auto-close time\n" +
+            "• Choose whether the results are also sent to the channel\n" +
+            "• Choose whether ballots are anonymous, visible to you or public\n\n" +
             "For more information, visit our website or contact support.",
         ),
       },
     };
   }
 
+  // Check if the command is a list request
+  const [subcommand, ...args] = request.text.trim().split(/\s+/);
+  if (subcommand.toLowerCase() === "list") {
+    return await handleListCommand(request, workspace, args);
+  }
+
+  // Check if the command manages an existing vote by its ID
+  if (VOTE_ID_SUBCOMMANDS.includes(subcommand.toLowerCase())) {
+    return await handleVoteIdCommand(request, workspace, subcommand.toLowerCase(), args);
+  }
+
   try {
     // Try to join the channel before opening the modal
     const joinResult = await joinChannel(request.channelId, workspace.accessToken);
@@ -152,48 +210,442 @@ export async function handleQVoteCommand(
       logger.info("Successfully joined channel", { channel: request.channelId });
     }
 
+    // Start a retro session, which collects items before its vote
+    if (subcommand.toLowerCase() === "retro") {
+      return await handleRetroCommand(request, workspace);
+    }
+
+    // Create the vote straight away if the command includes its details
+    if (request.text.trim()) {
+      return await createVoteFromCommand(request, workspace);
+    }
+
     // Open a modal for the user to enter vote details
-    const modalResponse = await openVoteCreationModal(
-      request.triggerId,
+    return await openModalForCommand(request, workspace);
+  } catch (error) {
+    logger.error("Error opening vote creation modal:", error);
+    const errorMessage = sanitizeUserError(error, "vote creation modal");
+    return {
+      status: 200,
+      body: {
+        response_type: "ephemeral",
+        text: `Error: ${errorMessage}`,
+        blocks: createErrorMessageBlocks(
+          "Error Opening Vote Modal",
+          errorMessage,
+        ),
+      },
+    };
+  }
+}
+
+// Handle /qvote list [open|ended|mine]
+async function handleListCommand(
+  request: SlackRequest,
+  workspace: Workspace,
+  args: string[],
+): Promise<CommandResponse> {
+  const filter = (args[0] || "all").toLowerCase() as VoteListFilter;
+
+  if (!VOTE_LIST_FILTERS.includes(filter) || args.length > 1) {
+    const message =
+      "Usage: `/qvote list`, `/qvote list open`, `/qvote list ended` or `/qvote list mine`";
+    return {
+      status: 200,
+      body: {
+        response_type: "ephemeral",
+        text: message,
+        blocks: createErrorMessageBlocks("Unknown List Filter", message),
+      },
+    };
+  }
+
+  try {
+    const message = await createVoteListMessage(
       workspace.id,
       request.channelId,
       request.userId,
+      filter,
+      0,
     );
 
-    // If there was an error opening the modal, return it to the user
-    if (modalResponse.body.text) {
+    return {
+      status: 200,
+      body: {
+        response_type: "ephemeral",
+        ...message,
+      },
+    };
+  } catch (error) {
+    logger.error("Error listing votes:", error);
+    const errorMessage = sanitizeUserError(error, "vote list");
+    return {
+      status: 200,
+      body: {
+        response_type: "ephemeral",
+        text: `Error: ${errorMessage}`,
+        blocks: createErrorMessageBlocks("Error Listing Votes", errorMessage),
+      },
+    };
+  }
+}
+
+// Subcommands that take a vote ID, e.g. /qvote end <vote ID>
+const VOTE_ID_SUBCOMMANDS = ["results", "end", "reopen"];
+
+// Create an ephemeral command response with standard message blocks
+function createEphemeralResponse(
+  title: string,
+  message: string,
+  createBlocks: (title: string, message: string) => SlackBlock[] = createErrorMessageBlocks,
+): CommandResponse {
+  return {
+    status: 200,
+    body: {
+      response_type: "ephemeral",
+      text: message,
+      blocks: createBlocks(title, message),
+    },
+  };
+}
+
+// Handle /qvote results|end|reopen <vote ID>
+async function handleVoteIdCommand(
+  request: SlackRequest,
+  workspace: Workspace,
+  subcommand: string,
+  args: string[],
+): Promise<CommandResponse> {
+  const flags = args.filter((arg) => arg.startsWith("--"));
+  const [voteId, ...extraArgs] = args.filter((arg) => !arg.startsWith("--"));
+  const allowedFlags = subcommand === "results" ? ["--share"] : [];
+
+  if (!voteId || extraArgs.length > 0 || flags.some((flag) => !allowedFlags.includes(flag))) {
+    const usage = subcommand === "results"
+      ? "`/qvote results <vote ID> [--share]`"
+      : `\`/qvote ${subcommand} <vote ID>\``;
+    return createEphemeralResponse(
+      "Invalid Command",
+      `Usage: ${usage}. You can find the vote ID at the bottom of the vote message.`,
+    );
+  }
+
+  try {
+    const vote = await votesService.getVoteById(voteId);
+
+    // Votes from other workspaces are treated as missing
+    if (vote.workspaceId !== workspace.id) {
+      throw new NotFoundError(`Vote with ID ${voteId} not found`);
+    }
+
+    if (subcommand === "results") {
+      // The vote's results visibility decides who can look at the results before it ends
+      if (!canSeeResults(vote, request.userId)) {
+        return createEphemeralResponse(
+          "Results Not Available",
+          createResultsNotAvailableMessage(vote),
+          createInfoMessageBlocks,
+        );
+      }
+
+      // Sharing live results with the channel would show them to everyone
+      if (!vote.isEnded && flags.includes("--share") && getResultsVisibility(vote) !== "everyone") {
+        return createEphemeralResponse(
+          "Results Not Shared",
+          `The results of "${vote.title}" can only be shared with the channel once the vote has ended.`,
+          createInfoMessageBlocks,
+        );
+      }
+
+      // Results shared with the channel are seen by everyone, not just the requester
+      const { vote: resultsVote, results, questions } = await votesService.getVoteResults(
+        voteId,
+        flags.includes("--share") ? undefined : request.userId,
+      );
+
       return {
-        status: modalResponse.status,
+        status: 200,
+        body: {
+          response_type: flags.includes("--share") ? "in_channel" : "ephemeral",
+          text: `Results for "${resultsVote.title}"`,
+          blocks: createResultsBlocks(resultsVote, results, questions),
+        },
+      };
+    }
+
+    validateVoteCreator(vote, request.userId, subcommand);
+
+    if (subcommand === "end") {
+      // The vote may have been ended since it was loaded, so only end it if it's still open
+      if (vote.isEnded || !(await votesService.endVoteIfOpen(voteId))) {
+        return createEphemeralResponse(
+          "Vote Already Ended",
+          `Vote "${vote.title}" has already ended.`,
+          createInfoMessageBlocks,
+        );
+      }
+
+      await updateVoteMessage(vote, workspace.accessToken);
+      await announceVoteResults(vote, workspace.accessToken);
+      await announceRetroActionList(vote, workspace.accessToken);
+
+      const { vote: endedVote, results, questions } = await votesService.getVoteResults(
+        voteId,
+        request.userId,
+      );
+
+      return {
+        status: 200,
         body: {
           response_type: "ephemeral",
-          text: modalResponse.body.text as string,
-          blocks: createErrorMessageBlocks(
-            "Error",
-            modalResponse.body.text as string,
-          ),
+          text: `Vote "${endedVote.title}" has been ended`,
+          blocks: createResultsBlocks(endedVote, results, questions),
         },
       };
     }
 
-    // Modal opened successfully, return empty ephemeral message
-    return {
-      status: 200,
-    };
+    // Reopen the vote
+    if (!vote.isEnded) {
+      return createEphemeralResponse(
+        "Vote Still Open",
+        `Vote "${vote.title}" is still open.`,
+        createInfoMessageBlocks,
+      );
+    }
+
+    // Reopening a planning poker round that was re-voted would leave two rounds open
+    if (vote.nextRoundId) {
+      return createEphemeralResponse(
+        "Round Already Re-voted",
+        `A new round of "${vote.title}" has already been started, so this round can't be reopened.`,
+        createInfoMessageBlocks,
+      );
+    }
+
+    const reopenedVote = await votesService.reopenVote(voteId);
+    await updateVoteMessage(vote, workspace.accessToken);
+
+    logger.info("Vote reopened", { voteId, userId: request.userId });
+
+    return createEphemeralResponse(
+      "Vote Reopened",
+      `Vote "${reopenedVote.title}" is open again.${
+        vote.endTime && !reopenedVote.endTime
+          ? " Its end time had already passed, so it will stay open until you end it."
+          : ""
+      }`,
+      createSuccessMessageBlocks,
+    );
   } catch (error) {
-    logger.error("Error opening vote creation modal:", error);
-    const errorMessage = sanitizeUserError(error, "vote creation modal");
+    if (error instanceof NotFoundError) {
+      return createEphemeralResponse("Vote Not Found", `No vote with ID ${voteId} was found.`);
+    }
+
+    if (error instanceof UnauthorizedError) {
+      return createEphemeralResponse("Permission Denied", error.message);
+    }
+
+    logger.error(`Error handling /qvote ${subcommand}:`, error);
+    const errorMessage = sanitizeUserError(error, `vote ${subcommand}`);
+    return createEphemeralResponse("Error", errorMessage);
+  }
+}
+
+// Open the vote creation modal, optionally pre-filled, and report any error to the user
+async function openModalForCommand(
+  request: SlackRequest,
+  workspace: Workspace,
+  values: VoteCreationModalValues = {},
+): Promise<CommandResponse> {
+  const modalResponse = await openVoteCreationModal(
+    request.triggerId,
+    workspace.id,
+    request.channelId,
+    request.userId,
+    values,
+  );
+
+  // If there was an error opening the modal, return it to the user
+  if (modalResponse.body.text) {
     return {
-      status: 200,
+      status: modalResponse.status,
       body: {
         response_type: "ephemeral",
-        text: `Error: ${errorMessage}`,
+        text: modalResponse.body.text as string,
         blocks: createErrorMessageBlocks(
-          "Error Opening Vote Modal",
-          errorMessage,
+          "Error",
+          modalResponse.body.text as string,
         ),
       },
     };
   }
+
+  // Modal opened successfully, return empty ephemeral message
+  return {
+    status: 200,
+  };
+}
+
+// Create and post a vote from the command text. Invalid input falls back to
+// the creation modal, pre-filled with whatever could be parsed.
+async function createVoteFromCommand(
+  request: SlackRequest,
+  workspace: Workspace,
+): Promise<CommandResponse> {
+  const parsed = parseQVoteCommand(request.text);
+  const questions = parseVoteQuestions(parsed.options, parsed.credits);
+  const { options, optionCosts } = questions
+    ? { options: questions[0].options, optionCosts: null }
+    : parseVoteOptions(parsed.options, parsed.mechanism, parsed.scale);
+
+  let fieldErrors = validateVoteFields({
+    title: parsed.title,
+    options,
+    credits: parsed.credits,
+    mechanism: parsed.mechanism,
+    allowOpposition: parsed.allowOpposition,
+    budget: parsed.budget,
+    optionCosts,
+    questions,
+    nominate: parsed.nominate,
+    ballotVisibility: parsed.ballotVisibility,
+    resultsVisibility: parsed.resultsVisibility,
+  });
+
+  if (!fieldErrors && parsed.duration && !parsed.endTime) {
+    fieldErrors = { vote_end_duration: "Enter a duration like 30m, 2h, 3d or in 2 days" };
+  }
+
+  if (fieldErrors) {
+    logger.info("Invalid inline vote, opening pre-filled modal", {
+      channel: request.channelId,
+      errors: fieldErrors,
+    });
+
+    return await openModalForCommand(request, workspace, {
+      title: parsed.title,
+      description: parsed.description,
+      options: parsed.options,
+      mechanism: parsed.mechanism,
+      credits: Number.isNaN(parsed.credits) ? undefined : parsed.credits,
+      budget: parsed.budget === null || Number.isNaN(parsed.budget) ? undefined : parsed.budget,
+      scale: parsed.scale,
+      endDuration: parsed.duration,
+      allowOpposition: parsed.allowOpposition,
+      nominate: parsed.nominate,
+      broadcastResults: parsed.broadcastResults,
+      ballotVisibility: parsed.ballotVisibility,
+      resultsVisibility: parsed.resultsVisibility,
+      errorMessage: parsed.title
+        ? `Couldn't create the vote from your command: ${
+          Object.values(fieldErrors).join(". ")
+        }. Check the details below.`
+        : 'Couldn\'t create the vote from your command. Wrap the title and each option in quotes, e.g. `/qvote "Lunch?" "Pizza" "Sushi"`.',
+    });
+  }
+
+  const vote = await votesService.createVote({
+    workspaceId: workspace.id,
+    channelId: request.channelId,
+    creatorId: request.userId,
+    title: parsed.title,
+    description: parsed.description,
+    options,
+    creditsPerUser: questions ? questions[0].creditsPerUser : parsed.credits,
+    mechanism: parsed.mechanism,
+    allowOpposition: parsed.allowOpposition,
+    budget: parsed.budget,
+    optionCosts,
+    questions,
+    isNominating: parsed.nominate,
+    endTime: parsed.endTime,
+    broadcastResults: parsed.broadcastResults,
+    ballotVisibility: parsed.ballotVisibility as BallotVisibility,
+    resultsVisibility: parsed.resultsVisibility as ResultsVisibility,
+  });
+
+  logger.info("Vote created from command text", { voteId: vote.id });
+
+  // A failed post is reported to the user with an ephemeral message
+  await postVoteToChannel(vote, workspace.accessToken, request.userId);
+
+  return {
+    status: 200,
+  };
+}
+
+// Most columns a retro board can have
+const MAX_RETRO_COLUMNS = 6;
+
+// Handle /qvote retro "Title" ["Column" ...] [--anonymous]
+async function handleRetroCommand(
+  request: SlackRequest,
+  workspace: Workspace,
+): Promise<CommandResponse> {
+  const parsed = parseRetroCommand(request.text.trim().replace(/^retro\b/i, ""));
+
+  const lowerCaseColumns = parsed.columns.map((column) => column.toLowerCase());
+  if (
+    !parsed.title ||
+    parsed.columns.length < 2 ||
+    parsed.columns.length > MAX_RETRO_COLUMNS ||
+    new Set(lowerCaseColumns).size !== lowerCaseColumns.length
+  ) {
+    return createEphemeralResponse(
+      "Invalid Command",
+      'Usage: `/qvote retro "Title" [--anonymous]`. Columns default to Start, Stop and Continue, or name 2 to 6 different columns after the title, e.g. `/qvote retro "Sprint 42" "Went well" "To improve"`.',
+    );
+  }
+
+  try {
+    const session = await retroService.createSession({
+      workspaceId: workspace.id,
+      channelId: request.channelId,
+      facilitatorId: request.userId,
+      title: parsed.title,
+      columns: parsed.columns,
+      isAnonymous: parsed.isAnonymous,
+    });
+
+    logger.info("Retro session created", { sessionId: session.id });
+
+    const postResult = await postRetroBoard(session, workspace.accessToken);
+    if (!postResult.ok) {
+      return createEphemeralResponse(
+        "Retro Created - Channel Issue",
+        `Your retro "${session.title}" was created, but I couldn't post its board to the channel. Make sure to invite me to the channel first with /invite @qvote.`,
+      );
+    }
+
+    return {
+      status: 200,
+    };
+  } catch (error) {
+    logger.error("Error starting retro:", error);
+    return createEphemeralResponse("Error Starting Retro", sanitizeUserError(error, "retro"));
+  }
+}
+
+// Parse the text after /qvote retro into the retro's title, columns and settings
+export function parseRetroCommand(text: string) {
+  // Slack clients may replace straight quotes with smart quotes
+  let remaining = text.replace(/[\u201C\u201D]/g, '"');
+
+  const anonymousMatch = remaining.match(/--anonymous\b/);
+  if (anonymousMatch) {
+    remaining = remaining.replace(anonymousMatch[0], "");
+  }
+
+  // First quoted argument is the title, the rest are columns
+  const [title = "", ...columns] = [...remaining.matchAll(/"([^"]+)"/g)]
+    .map((match) => match[1].trim())
+    .filter((arg) => arg.length > 0);
+
+  return {
+    title,
+    columns: columns.length > 0 ? columns : DEFAULT_RETRO_COLUMNS,
+    isAnonymous: Boolean(anonymousMatch),
+  };
 }
 
 // Parse the command text into structured data
@@ -204,55 +656,103 @@ export function parseQVoteCommand(text: string) {
     options: [] as string[],
     description: "",
     credits: 100,
+    budget: null as number | null,
+    mechanism: DEFAULT_MECHANISM,
+    scale: undefined as string | undefined,
+    duration: "",
     endTime: null as Date | null,
+    allowOpposition: false,
+    nominate: false,
+    broadcastResults: false,
+    ballotVisibility: "anonymous",
+    resultsVisibility: "creator",
   };
 
-  // Split by quoted arguments
-  const matches = [...text.matchAll(/"([^"]+)"/g)].map((match) => match[1]);
+  // Slack clients may replace straight quotes with smart quotes
+  let remaining = text.replace(/[\u201C\u201D]/g, '"');
 
-  if (matches.length === 0) {
-    return result; // No arguments
+  // Extract special flags first so their values aren't mistaken for options
+  const descMatch = remaining.match(/--desc\s+"([^"]*)"/);
+  if (descMatch) {
+    result.description = descMatch[1];
+    remaining = remaining.replace(descMatch[0], "");
   }
 
-  // First match is title, the rest are options (for now)
-  result.title = matches[0];
-  if (matches.length > 1) {
-    result.options = matches.slice(1);
+  const creditsMatch = remaining.match(/--credits\s+(\S+)/);
+  if (creditsMatch) {
+    result.credits = Number(creditsMatch[1]);
+    remaining = remaining.replace(creditsMatch[0], "");
   }
 
-  // Extract special flags
-  if (text.includes("--desc")) {
-    const descMatch = text.match(/--desc\s+"([^"]+)"/);
-    if (descMatch && descMatch[1]) {
-      result.description = descMatch[1];
-      // Remove this option from the options array if it was caught there
-      result.options = result.options.filter((opt) => opt !== descMatch[1]);
-    }
+  const budgetMatch = remaining.match(/--budget\s+(\S+)/);
+  if (budgetMatch) {
+    result.budget = Number(budgetMatch[1]);
+    remaining = remaining.replace(budgetMatch[0], "");
   }
 
-  if (text.includes("--credits")) {
-    const creditsMatch = text.match(/--credits\s+(\d+)/);
-    if (creditsMatch && creditsMatch[1]) {
-      result.credits = parseInt(creditsMatch[1], 10);
-    }
+  const modeMatch = remaining.match(/--mode\s+(\S+)/);
+  if (modeMatch) {
+    result.mechanism = modeMatch[1].toLowerCase();
+    remaining = remaining.replace(modeMatch[0], "");
   }
 
-  if (text.includes("--time")) {
-    const timeMatch = text.match(/--time\s+(\d+)([hd])/);
-    if (timeMatch && timeMatch[1] && timeMatch[2]) {
-      const value = parseInt(timeMatch[1], 10);
-      const unit = timeMatch[2];
-
-      const endTime = new Date();
-      if (unit === "h") {
-        endTime.setHours(endTime.getHours() + value);
-      } else if (unit === "d") {
-        endTime.setDate(endTime.getDate() + value);
-      }
+  const scaleMatch = remaining.match(/--scale\s+(\S+)/);
+  if (scaleMatch) {
+    result.scale = scaleMatch[1].toLowerCase();
+    remaining = remaining.replace(scaleMatch[0], "");
+  }
+
+  const timeMatch = remaining.match(/--time\s+(?:"([^"]+)"|(\S+))/);
+  if (timeMatch) {
+    result.duration = timeMatch[1] ?? timeMatch[2];
+    remaining = remaining.replace(timeMatch[0], "");
 
-      result.endTime = endTime;
+    const durationMs = parseDuration(result.duration);
+    if (durationMs !== null) {
+      result.endTime = new Date(Date.now() + durationMs);
     }
   }
 
+  const opposeMatch = remaining.match(/--oppose\b/);
+  if (opposeMatch) {
+    result.allowOpposition = true;
+    remaining = remaining.replace(opposeMatch[0], "");
+  }
+
+  const nominateMatch = remaining.match(/--nominate\b/);
+  if (nominateMatch) {
+    result.nominate = true;
+    remaining = remaining.replace(nominateMatch[0], "");
+  }
+
+  const ballotsMatch = remaining.match(/--ballots\s+(\S+)/);
+  if (ballotsMatch) {
+    result.ballotVisibility = ballotsMatch[1].toLowerCase();
+    remaining = remaining.replace(ballotsMatch[0], "");
+  }
+
+  const resultsMatch = remaining.match(/--results\s+(\S+)/);
+  if (resultsMatch) {
+    result.resultsVisibility = resultsMatch[1].toLowerCase();
+    remaining = remaining.replace(resultsMatch[0], "");
+  }
+
+  const broadcastMatch = remaining.match(/--broadcast\b/);
+  if (broadcastMatch) {
+    result.broadcastResults = true;
+    remaining = remaining.replace(broadcastMatch[0], "");
+  }
+
+  // Split by quoted arguments
+  const matches = [...remaining.matchAll(/"([^"]+)"/g)].map((match) => match[1].trim());
+
+  if (matches.length === 0) {
+    return result; // No arguments
+  }
+
+  // First match is the title, the rest are options
+  result.title = matches[0];
+  result.options = matches.slice(1).filter((option) => option.length > 0);
+
   return result;
 }
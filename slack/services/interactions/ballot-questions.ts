@@ -0,0 +1,102 @@
+/**
+ * Ballots for multi-question votes. Each question is shown as its own section of the
+ * voting modal and rendered by the vote's mechanism. The block IDs of each question are
+ * prefixed with its index, so the mechanisms can keep using their own block IDs.
+ */
+import type { SlackBlock } from "./slack-block-types.ts";
+import type { SlackViewStateValue } from "./types.ts";
+import type { VoteQuestion } from "@db/votes.ts";
+import { type BallotVote, getMechanism, type VotingMechanism } from "@mechanisms/index.ts";
+
+// Prefix for the block IDs of a question, e.g. "option_0" becomes "q1_option_0"
+const questionPrefix = (questionIndex: number) => `q${questionIndex}_`;
+
+/**
+ * Creates the ballot of each question, from the vote's ballot
+ * @param fillBallot Fills in a question's ballot, e.g. with the voter's previous votes
+ */
+export function createQuestionBallots(
+  vote: BallotVote,
+  questions: VoteQuestion[],
+  fillBallot: (ballot: BallotVote, questionIndex: number) => BallotVote,
+): BallotVote[] {
+  return questions.map((question, questionIndex) =>
+    fillBallot(
+      {
+        ...vote,
+        title: question.title,
+        options: question.options,
+        creditsPerUser: question.creditsPerUser,
+        creditsUsed: undefined,
+        previousVotes: undefined,
+      },
+      questionIndex,
+    )
+  );
+}
+
+/**
+ * Creates the voting modal blocks for every question, each under its own heading
+ */
+export function createQuestionBallotBlocks(questions: BallotVote[]): SlackBlock[] {
+  return questions.flatMap((question, questionIndex) => {
+    const blocks = getMechanism(question.mechanism).createBallotBlocks(question).map((block) =>
+      "block_id" in block
+        ? { ...block, block_id: `${questionPrefix(questionIndex)}${block.block_id}` }
+        : block
+    );
+
+    return [
+      ...(questionIndex > 0 ? [{ type: "divider" }] : []),
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*${questionIndex + 1}. ${question.title}*`,
+        },
+      },
+      ...blocks,
+    ] as SlackBlock[];
+  });
+}
+
+/**
+ * Picks the view state of one question, without the question's block ID prefix
+ */
+export function getQuestionState(
+  state: Record<string, Record<string, SlackViewStateValue>>,
+  questionIndex: number,
+): Record<string, Record<string, SlackViewStateValue>> {
+  const prefix = questionPrefix(questionIndex);
+
+  return Object.fromEntries(
+    Object.entries(state)
+      .filter(([blockId]) => blockId.startsWith(prefix))
+      .map(([blockId, value]) => [blockId.slice(prefix.length), value]),
+  );
+}
+
+/**
+ * Gets the ballot block that shows errors about the whole ballot, e.g. that the vote has
+ * ended. Multi-question ballots show them on the first question.
+ */
+export function getBallotErrorBlockId(mechanism: VotingMechanism, questionCount: number): string {
+  return questionCount > 1
+    ? `${questionPrefix(0)}${mechanism.ballotErrorBlockId}`
+    : mechanism.ballotErrorBlockId;
+}
+
+/**
+ * Adds the question's block ID prefix to the ballot errors of one question
+ */
+export function scopeQuestionErrors(
+  errors: Record<string, string>,
+  questionIndex: number,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(errors).map(([blockId, error]) => [
+      `${questionPrefix(questionIndex)}${blockId}`,
+      error,
+    ]),
+  );
+}
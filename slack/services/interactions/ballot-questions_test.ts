@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+import {
+  createQuestionBallotBlocks,
+  createQuestionBallots,
+  getQuestionState,
+  scopeQuestionErrors,
+} from "./ballot-questions.ts";
+
+const vote = {
+  id: "vote-123",
+  title: "Offsite",
+  options: ["Lisbon", "Berlin"],
+  creditsPerUser: 100,
+  mechanism: "approval",
+};
+
+const questions = [
+  { title: "Where?", options: ["Lisbon", "Berlin"], creditsPerUser: 100 },
+  { title: "When?", options: ["May", "June"], creditsPerUser: 25 },
+];
+
+Deno.test("createQuestionBallots gives each question its own options and credits", () => {
+  const ballots = createQuestionBallots(
+    { ...vote, previousVotes: [{ optionIndex: 0, credits: 1 }] },
+    questions,
+    (ballot, questionIndex) =>
+      questionIndex === 1 ? { ...ballot, previousVotes: [{ optionIndex: 1, credits: 1 }] } : ballot,
+  );
+
+  assertEquals(ballots.map((b) => [b.title, b.options, b.creditsPerUser]), [
+    ["Where?", ["Lisbon", "Berlin"], 100],
+    ["When?", ["May", "June"], 25],
+  ]);
+  // Previous votes only come from filling in each question
+  assertEquals(ballots[0].previousVotes, undefined);
+  assertEquals(ballots[1].previousVotes, [{ optionIndex: 1, credits: 1 }]);
+});
+
+Deno.test("createQuestionBallotBlocks prefixes each question's block IDs", () => {
+  const blocks = createQuestionBallotBlocks(createQuestionBallots(vote, questions, (b) => b));
+
+  const headings = blocks.filter((block) =>
+    block.type === "section" && JSON.stringify(block).includes("*2. When?*")
+  );
+  assertEquals(headings.length, 1);
+
+  const blockIds = blocks.flatMap((block) => "block_id" in block ? [block.block_id] : []);
+  assert(blockIds.length > 0);
+  assert(blockIds.every((blockId) => /^q[01]_/.test(String(blockId))));
+});
+
+Deno.test("getQuestionState and scopeQuestionErrors map block IDs of one question", () => {
+  const state = {
+    q0_approvals_0: { approvals_0: { type: "checkboxes", value: "" } },
+    q1_approvals_0: { approvals_0: { type: "checkboxes", value: "x" } },
+  };
+
+  assertEquals(getQuestionState(state, 1), {
+    approvals_0: { approvals_0: { type: "checkboxes", value: "x" } },
+  });
+  assertEquals(scopeQuestionErrors({ approvals_0: "Pick an option" }, 1), {
+    q1_approvals_0: "Pick an option",
+  });
+});
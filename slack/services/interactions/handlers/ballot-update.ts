@@ -0,0 +1,90 @@
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import { createVotingModalView } from "../templates.ts";
+import { createQuestionBallots, getQuestionState } from "../ballot-questions.ts";
+import logger from "@utils/logger.ts";
+import { createErrorResponse } from "../vote-utils.ts";
+import { votesService, workspaceService } from "@db/prisma.ts";
+import { getVoteQuestions } from "@db/votes.ts";
+import { getMechanism } from "@mechanisms/index.ts";
+import { postToSlackApi } from "@utils/http-client.ts";
+
+// Redraw the voting modal as the voter fills in their ballot, e.g. to show the remaining budget
+export async function handleBallotUpdate(
+  action: NonNullable<SlackInteraction["actions"]>[number],
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  logger.debug("Handling ballot update action:", { actionId: action.action_id });
+
+  if (!payload.view) {
+    return createErrorResponse("No view data found in action.", "Missing View Data");
+  }
+
+  try {
+    const { voteId } = JSON.parse(String(payload.view.private_metadata || "{}"));
+    const vote = await votesService.getVoteById(voteId);
+    const mechanism = getMechanism(vote.mechanism);
+
+    // Nothing to redraw for ballots that don't change as the voter types
+    if (!mechanism.previewBallot) {
+      return { status: 200, body: {} };
+    }
+
+    const ballot = {
+      id: vote.id,
+      title: vote.title,
+      description: vote.description,
+      creditsPerUser: vote.creditsPerUser,
+      options: vote.options as string[],
+      mechanism: vote.mechanism,
+      allowOpposition: vote.allowOpposition,
+      optionCosts: vote.optionCosts as number[] | null,
+      ballotVisibility: vote.ballotVisibility,
+    };
+    const state = payload.view.state.values;
+    const questions = getVoteQuestions(vote);
+
+    // Each question of a multi-question vote is previewed from its own part of the ballot
+    const view = createVotingModalView(
+      questions.length > 1
+        ? {
+          ...ballot,
+          questions: createQuestionBallots(
+            ballot,
+            questions,
+            (question, questionIndex) =>
+              mechanism.previewBallot!(question, getQuestionState(state, questionIndex)),
+          ),
+        }
+        : mechanism.previewBallot(ballot, state),
+    );
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+
+    // The hash makes Slack reject the update if the modal changed in the meantime,
+    // e.g. when a later keystroke's update has already been applied
+    const response = await postToSlackApi(
+      "https://slack.com/api/views.update",
+      {
+        view_id: payload.view.id,
+        hash: payload.view.hash,
+        view,
+      },
+      {
+        Authorization: `Bearer ${workspaceToken}`,
+      },
+    );
+
+    const result = await response.json();
+    if (!result.ok) {
+      logger.warn("Failed to update ballot", { error: result.error, voteId });
+    }
+
+    // Return an empty 200 response to acknowledge receipt
+    return { status: 200, body: {} };
+  } catch (error) {
+    logger.error("Error updating ballot:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(errorMessage, "Error Updating Ballot");
+  }
+}
@@ -3,11 +3,15 @@ import { InteractionResponse, SlackInteraction } from "../types.ts";
 
 import logger from "@utils/logger.ts";
 import {
+  announceVoteResults,
   createErrorResponse,
   sendResponseUrlMessage,
   updateOriginalMessageAfterVoteEnd,
+  validateVoteCreator,
 } from "../vote-utils.ts";
+import { announceRetroActionList } from "../retro.ts";
 import { votesService, workspaceService } from "@db/prisma.ts";
+import { UnauthorizedError } from "@db/errors.ts";
 
 export async function handleEndVote(
   action: NonNullable<SlackInteraction["actions"]>[number],
@@ -28,7 +32,13 @@ export async function handleEndVote(
     const vote = await votesService.getVoteById(voteId);
 
     // Check if the user is the creator of the vote
-    if (vote.creatorId !== payload.user.id) {
+    try {
+      validateVoteCreator(vote, payload.user.id);
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError)) {
+        throw error;
+      }
+
       logger.warn("Unauthorized vote end attempt", {
         voteId,
         userId: payload.user.id,
@@ -38,23 +48,18 @@ export async function handleEndVote(
 
       // If we have a response_url, use it directly for better error visibility
       if (payload.response_url) {
-        const errorMessage =
-          `Only the creator of this vote (<@${vote.creatorId}>) can end it. You don't have permission to perform this action.`;
-        await sendResponseUrlMessage(payload.response_url, errorMessage, {
+        await sendResponseUrlMessage(payload.response_url, error.message, {
           title: "Permission Denied",
           isError: true,
         });
         logger.info("Sent error via response_url", { voteId });
       }
 
-      return createErrorResponse(
-        `Only the creator of this vote (<@${vote.creatorId}>) can end it. You don't have permission to perform this action.`,
-        "Permission Denied",
-      );
+      return createErrorResponse(error.message, "Permission Denied");
     }
 
-    // End the vote in the database
-    await votesService.endVote(voteId);
+    // End the vote in the database. It may already have been ended by another click.
+    const endedByUs = await votesService.endVoteIfOpen(voteId);
 
     // Get results to show after ending vote
     const results = await votesService.getVoteResults(voteId);
@@ -64,22 +69,31 @@ export async function handleEndVote(
       workspaceId,
     );
 
+    // The vote message shows participation, which needs the vote's responses
     await updateOriginalMessageAfterVoteEnd(
-      results.vote,
+      await votesService.getVoteById(voteId),
       payload,
       workspaceToken,
     );
 
+    // Only announce the results once
+    if (endedByUs) {
+      await announceVoteResults(results.vote, workspaceToken);
+      await announceRetroActionList(results.vote, workspaceToken);
+    }
+
     // Format results for display
-    const { vote: updatedVote, results: voteResults } = results;
+    const { vote: updatedVote, results: voteResults, questions } = results;
 
     // Send an ephemeral message with the results
     return {
       status: 200,
       body: {
-        text: `Vote "${updatedVote.title}" has been ended`,
+        text: endedByUs
+          ? `Vote "${updatedVote.title}" has been ended`
+          : `Vote "${updatedVote.title}" had already ended`,
         response_type: "ephemeral",
-        blocks: createResultsBlocks(updatedVote, voteResults),
+        blocks: createResultsBlocks(updatedVote, voteResults, questions),
       },
     };
   } catch (error) {
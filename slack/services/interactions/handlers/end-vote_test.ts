@@ -206,6 +206,15 @@ describe(
       assertEquals(vote.isEnded, true);
     });
 
+    it("tells the creator when the vote had already ended", async () => {
+      await votesService.endVoteIfOpen(testVoteId);
+
+      const response = await handleEndVote(mockAction, mockPayload, testWorkspaceId);
+
+      assertEquals(response.status, 200);
+      assertStringIncludes(response.body.text || "", "had already ended");
+    });
+
     it("returns error for non-existent vote", async () => {
       // Create a valid UUID that doesn't exist in the database
       const nonExistentId = crypto.randomUUID();
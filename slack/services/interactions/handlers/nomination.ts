@@ -0,0 +1,331 @@
+/**
+ * Handlers for votes that take proposed options before voting opens. Channel members
+ * propose options from the vote message, and the creator merges or rejects proposals
+ * and then locks the options, which opens voting on them.
+ */
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import { createProposeOptionModalView, createReviewProposalsModalView } from "../templates.ts";
+import logger from "@utils/logger.ts";
+import {
+  createErrorResponse,
+  handleActionError,
+  openModalFromAction,
+  resolveMerges,
+  respondToAction,
+  updateVoteMessage,
+  validateVoteCreator,
+} from "../vote-utils.ts";
+import { votesService, workspaceService } from "@db/prisma.ts";
+import { getActiveProposals } from "@db/votes.ts";
+import { NotFoundError, UnauthorizedError, ValidationError } from "@db/errors.ts";
+import { getMechanism } from "@mechanisms/index.ts";
+
+type SlackAction = NonNullable<SlackInteraction["actions"]>[number];
+
+// Get a vote that still takes proposals, or the message explaining why it doesn't
+async function getNominatingVote(voteId: string) {
+  const vote = await votesService.getVoteById(voteId);
+
+  if (vote.isEnded) {
+    return { vote, message: "This vote has already ended." };
+  }
+
+  if (!vote.isNominating) {
+    return { vote, message: "The options of this vote are already locked." };
+  }
+
+  return { vote, message: null };
+}
+
+/**
+ * Opens the modal for proposing an option
+ */
+export async function handleProposeOption(
+  action: SlackAction,
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No vote ID was provided.");
+  }
+
+  // Extract vote ID from the action value (format: "propose_<id>")
+  const voteId = action.value.replace("propose_", "");
+
+  try {
+    const { vote, message } = await getNominatingVote(voteId);
+    if (message) {
+      return await respondToAction(payload, message, "Proposals Closed");
+    }
+
+    return await openModalFromAction(payload, workspaceId, createProposeOptionModalView(vote));
+  } catch (error) {
+    logger.error("Error opening the propose option modal:", error);
+    return await handleActionError(payload, error, "Error Proposing Option");
+  }
+}
+
+/**
+ * Opens the modal where the creator merges or rejects the proposed options
+ */
+export async function handleReviewProposals(
+  action: SlackAction,
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No vote ID was provided.");
+  }
+
+  // Extract vote ID from the action value (format: "review_<id>")
+  const voteId = action.value.replace("review_", "");
+
+  try {
+    const { vote, message } = await getNominatingVote(voteId);
+    validateVoteCreator(vote, payload.user.id, "review proposals for");
+
+    if (message) {
+      return await respondToAction(payload, message, "Proposals Closed");
+    }
+
+    const proposals = getActiveProposals(vote.proposals);
+    if (proposals.length === 0) {
+      return await respondToAction(payload, "No options have been proposed yet.", "No Proposals");
+    }
+
+    return await openModalFromAction(
+      payload,
+      workspaceId,
+      createReviewProposalsModalView(vote, proposals),
+    );
+  } catch (error) {
+    logger.error("Error opening the review proposals modal:", error);
+    return await handleActionError(payload, error, "Error Reviewing Proposals");
+  }
+}
+
+/**
+ * Locks the proposed options as the vote's options, which opens voting
+ */
+export async function handleLockOptions(
+  action: SlackAction,
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No vote ID was provided.");
+  }
+
+  // Extract vote ID from the action value (format: "lock_<id>")
+  const voteId = action.value.replace("lock_", "");
+
+  try {
+    const { vote, message } = await getNominatingVote(voteId);
+    validateVoteCreator(vote, payload.user.id, "lock the options for");
+
+    if (message) {
+      return await respondToAction(payload, message, "Options Locked");
+    }
+
+    const options = getActiveProposals(vote.proposals).map((proposal) => proposal.text);
+    if (options.length < 2) {
+      return await respondToAction(
+        payload,
+        "At least two options need to be proposed before voting can open.",
+        "Not Enough Options",
+        true,
+      );
+    }
+
+    // The voting mode may limit the options, e.g. to the number of estimates it can show
+    const settingsErrors = getMechanism(vote.mechanism).validateSettings({
+      creditsPerUser: vote.creditsPerUser,
+      allowOpposition: vote.allowOpposition,
+      budget: vote.budget,
+      options,
+    });
+    if (settingsErrors) {
+      return await respondToAction(
+        payload,
+        `The proposed options can't be voted on yet: ${Object.values(settingsErrors).join(". ")}`,
+        "Invalid Options",
+        true,
+      );
+    }
+
+    if (!(await votesService.lockOptions(voteId, options))) {
+      return await respondToAction(
+        payload,
+        "The options of this vote are already locked.",
+        "Options Locked",
+      );
+    }
+
+    logger.info("Proposed options locked", { voteId, optionCount: options.length });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    await updateVoteMessage(vote, workspaceToken);
+
+    return await respondToAction(
+      payload,
+      `Voting is now open on ${options.length} options.`,
+      "Options Locked",
+    );
+  } catch (error) {
+    logger.error("Error locking the proposed options:", error);
+    return await handleActionError(payload, error, "Error Locking Options");
+  }
+}
+
+/**
+ * Adds the option submitted from the propose option modal
+ */
+export async function handleProposeOptionSubmission(
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  const metadata = JSON.parse(String(payload.view?.private_metadata || "{}"));
+  const text = payload.view?.state.values.proposal?.proposal_input?.value?.trim();
+
+  if (!text) {
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: { proposal: "Enter an option to propose" },
+      },
+    };
+  }
+
+  try {
+    const vote = await votesService.getVoteById(metadata.voteId);
+    if (vote.isEnded) {
+      throw new ValidationError("This vote has already ended.");
+    }
+
+    await votesService.proposeOption(vote.id, payload.user.id, text);
+    logger.info("Option proposed", { voteId: vote.id, proposerId: payload.user.id });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    await updateVoteMessage(vote, workspaceToken);
+
+    return {
+      status: 200,
+      body: {
+        response_action: "clear",
+      },
+    };
+  } catch (error) {
+    logger.error("Error proposing option:", error);
+
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: {
+          proposal: error instanceof ValidationError || error instanceof NotFoundError
+            ? error.message
+            : "Error proposing the option. Please try again.",
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Applies the creator's decisions from the review proposals modal. Merges into a
+ * proposal that is itself merged go to the proposal at the end of the chain, which
+ * can't be rejected in the same review.
+ */
+export async function handleReviewProposalsSubmission(
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  const metadata = JSON.parse(String(payload.view?.private_metadata || "{}"));
+  const state = payload.view?.state.values ?? {};
+
+  // The decision for each proposal, by proposal ID
+  const decisions = new Map(
+    Object.entries(state)
+      .filter(([blockId]) => blockId.startsWith("proposal_"))
+      .map(([blockId, value]) => [
+        blockId.replace("proposal_", ""),
+        value.proposal_decision?.selected_option?.value ?? "keep",
+      ]),
+  );
+
+  // Follow merges into merged proposals, and reject merges that go round in a circle
+  const resolved = resolveMerges(decisions, "merge_");
+  if (resolved.circularId !== undefined) {
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: { [`proposal_${resolved.circularId}`]: "Options can't be merged into each other" },
+      },
+    };
+  }
+
+  const { merges } = resolved;
+
+  // The merged proposal would disappear from the vote along with the rejected one
+  for (const [proposalId, targetId] of merges) {
+    if (decisions.get(targetId) === "reject") {
+      return {
+        status: 200,
+        body: {
+          response_action: "errors",
+          errors: { [`proposal_${proposalId}`]: "Options can't be merged into a rejected option" },
+        },
+      };
+    }
+  }
+
+  try {
+    const vote = await votesService.getVoteById(metadata.voteId);
+    validateVoteCreator(vote, payload.user.id, "review proposals for");
+
+    if (!vote.isNominating) {
+      throw new ValidationError("The options of this vote are already locked.");
+    }
+
+    for (const [proposalId, targetId] of merges) {
+      await votesService.mergeProposal(vote.id, proposalId, targetId);
+    }
+
+    for (const [proposalId, decision] of decisions) {
+      if (decision === "reject") {
+        await votesService.rejectProposal(vote.id, proposalId);
+      }
+    }
+
+    logger.info("Proposals reviewed", { voteId: vote.id, merged: merges.size });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    await updateVoteMessage(vote, workspaceToken);
+
+    return {
+      status: 200,
+      body: {
+        response_action: "clear",
+      },
+    };
+  } catch (error) {
+    logger.error("Error reviewing proposals:", error);
+
+    // Show the error on the first proposal, as the modal has no other inputs
+    const [firstBlockId = "proposal"] = Object.keys(state);
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: {
+          [firstBlockId]: error instanceof ValidationError || error instanceof NotFoundError ||
+              error instanceof UnauthorizedError
+            ? error.message
+            : "Error applying your review. Please try again.",
+        },
+      },
+    };
+  }
+}
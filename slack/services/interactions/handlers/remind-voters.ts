@@ -0,0 +1,76 @@
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import logger from "@utils/logger.ts";
+import {
+  createErrorResponse,
+  getNonVoters,
+  respondToAction,
+  validateVoteCreator,
+} from "../vote-utils.ts";
+import { MANUAL_REMINDER_KEY, sendVoteReminders } from "../vote-reminders.ts";
+import { votesService, workspaceService } from "@db/prisma.ts";
+import { NotFoundError, UnauthorizedError } from "@db/errors.ts";
+
+export async function handleRemindNonVoters(
+  action: NonNullable<SlackInteraction["actions"]>[number],
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  logger.info("Handling remind non-voters action:", { action });
+
+  if (!action.value) {
+    return createErrorResponse("No vote ID was provided.");
+  }
+
+  // Extract vote ID from the action value (format: "remind_<id>")
+  const voteId = action.value.replace("remind_", "");
+
+  try {
+    const vote = await votesService.getVoteById(voteId);
+
+    validateVoteCreator(vote, payload.user.id, "send reminders for");
+
+    if (vote.isEnded) {
+      return await respondToAction(payload, "This vote has already ended.", "Vote Ended");
+    }
+
+    const allowedVoters = vote.allowedVoters as string[] | null;
+    if (!allowedVoters || allowedVoters.length === 0) {
+      return await respondToAction(
+        payload,
+        "Reminders are only available for votes restricted to specific users.",
+        "No Reminders",
+      );
+    }
+
+    const nonVoters = getNonVoters(vote, allowedVoters);
+    if (nonVoters.length === 0) {
+      return await respondToAction(payload, "Everyone has already voted.", "No Reminders");
+    }
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    const sentCount = await sendVoteReminders(vote, MANUAL_REMINDER_KEY, workspaceToken);
+
+    return await respondToAction(
+      payload,
+      sentCount > 0
+        ? `Sent a reminder to ${sentCount} ${
+          sentCount === 1 ? "voter" : "voters"
+        } who haven't voted yet.`
+        : "Everyone who hasn't voted has already been reminded.",
+      "Reminders Sent",
+    );
+  } catch (error) {
+    logger.error("Error sending vote reminders:", error);
+
+    if (error instanceof UnauthorizedError) {
+      return await respondToAction(payload, error.message, "Permission Denied", true);
+    }
+
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error.message, "Not Found");
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(errorMessage, "Error Sending Reminders");
+  }
+}
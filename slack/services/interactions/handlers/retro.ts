@@ -0,0 +1,312 @@
+/**
+ * Handlers for retro sessions. Channel members add items to the columns of the retro
+ * board, the facilitator groups items that say the same thing and then starts a
+ * quadratic vote on the grouped items, whose results become the retro's action list.
+ */
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import { createAddRetroItemModalView, createGroupRetroItemsModalView } from "../templates.ts";
+import logger from "@utils/logger.ts";
+import {
+  createErrorResponse,
+  handleActionError,
+  openModalFromAction,
+  resolveMerges,
+  respondToAction,
+} from "../vote-utils.ts";
+import { postVoteToChannel } from "../vote-creation.ts";
+import { updateRetroBoard } from "../retro.ts";
+import { retroService, workspaceService } from "@db/prisma.ts";
+import { getRetroGroups } from "@db/retro.ts";
+import { NotFoundError, UnauthorizedError, ValidationError } from "@db/errors.ts";
+
+type SlackAction = NonNullable<SlackInteraction["actions"]>[number];
+
+/**
+ * Checks that a user facilitates the retro before letting them manage it
+ * @throws UnauthorizedError if the user is not the facilitator of the retro
+ */
+function validateFacilitator(
+  session: { facilitatorId: string },
+  userId: string,
+  action: string,
+): void {
+  if (session.facilitatorId !== userId) {
+    throw new UnauthorizedError(
+      `Only the facilitator of this retro (<@${session.facilitatorId}>) can ${action}. You don't have permission to perform this action.`,
+    );
+  }
+}
+
+// Get a retro that still collects items, or the message explaining why it doesn't
+async function getCollectingSession(sessionId: string) {
+  const session = await retroService.getSessionById(sessionId);
+
+  if (session.status !== "collecting") {
+    return { session, message: "This retro is no longer collecting items." };
+  }
+
+  return { session, message: null };
+}
+
+/**
+ * Opens the modal for adding an item to the retro board
+ */
+export async function handleAddRetroItem(
+  action: SlackAction,
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No retro ID was provided.");
+  }
+
+  // Extract session ID from the action value (format: "retro_add_<id>")
+  const sessionId = action.value.replace("retro_add_", "");
+
+  try {
+    const { session, message } = await getCollectingSession(sessionId);
+    if (message) {
+      return await respondToAction(payload, message, "Retro Closed");
+    }
+
+    return await openModalFromAction(
+      payload,
+      workspaceId,
+      createAddRetroItemModalView({ ...session, columns: session.columns as string[] }),
+    );
+  } catch (error) {
+    logger.error("Error opening the add retro item modal:", error);
+    return await handleActionError(payload, error, "Error Adding Item");
+  }
+}
+
+/**
+ * Opens the modal where the facilitator groups items that say the same thing
+ */
+export async function handleGroupRetroItems(
+  action: SlackAction,
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No retro ID was provided.");
+  }
+
+  // Extract session ID from the action value (format: "retro_group_<id>")
+  const sessionId = action.value.replace("retro_group_", "");
+
+  try {
+    const { session, message } = await getCollectingSession(sessionId);
+    validateFacilitator(session, payload.user.id, "group its items");
+
+    if (message) {
+      return await respondToAction(payload, message, "Retro Closed");
+    }
+
+    const groups = getRetroGroups(session);
+    if (groups.length < 2) {
+      return await respondToAction(
+        payload,
+        "At least two items are needed to group them.",
+        "No Items",
+      );
+    }
+
+    return await openModalFromAction(
+      payload,
+      workspaceId,
+      createGroupRetroItemsModalView(session, groups),
+    );
+  } catch (error) {
+    logger.error("Error opening the group retro items modal:", error);
+    return await handleActionError(payload, error, "Error Grouping Items");
+  }
+}
+
+/**
+ * Stops collecting items and posts a quadratic vote on the grouped items
+ */
+export async function handleStartRetroVote(
+  action: SlackAction,
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No retro ID was provided.");
+  }
+
+  // Extract session ID from the action value (format: "retro_vote_<id>")
+  const sessionId = action.value.replace("retro_vote_", "");
+
+  try {
+    const { session, message } = await getCollectingSession(sessionId);
+    validateFacilitator(session, payload.user.id, "start its vote");
+
+    if (message) {
+      return await respondToAction(payload, message, "Retro Closed");
+    }
+
+    const options = getRetroGroups(session).map((group) => group.option);
+    if (options.length < 2) {
+      return await respondToAction(
+        payload,
+        "At least two items need to be added before the team can vote on them.",
+        "Not Enough Items",
+        true,
+      );
+    }
+
+    const vote = await retroService.startVoting(sessionId, { options });
+    if (!vote) {
+      return await respondToAction(
+        payload,
+        "Voting on this retro has already started.",
+        "Retro Closed",
+      );
+    }
+
+    logger.info("Retro vote started", { sessionId, voteId: vote.id, optionCount: options.length });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    await postVoteToChannel(vote, workspaceToken, payload.user.id);
+    await updateRetroBoard(session, workspaceToken);
+
+    return await respondToAction(
+      payload,
+      `Voting has started on ${options.length} items. End the vote to post the action list.`,
+      "Retro Vote Started",
+    );
+  } catch (error) {
+    logger.error("Error starting the retro vote:", error);
+    return await handleActionError(payload, error, "Error Starting Vote");
+  }
+}
+
+/**
+ * Adds the item submitted from the add retro item modal
+ */
+export async function handleAddRetroItemSubmission(
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  const metadata = JSON.parse(String(payload.view?.private_metadata || "{}"));
+  const state = payload.view?.state.values;
+  const text = state?.retro_item?.retro_item_input?.value?.trim();
+  const column = Number(state?.retro_column?.retro_column_select?.selected_option?.value ?? 0);
+
+  if (!text) {
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: { retro_item: "Enter an item to add" },
+      },
+    };
+  }
+
+  try {
+    await retroService.addItem(metadata.sessionId, payload.user.id, column, text);
+    logger.info("Retro item added", { sessionId: metadata.sessionId });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    await updateRetroBoard({ id: metadata.sessionId }, workspaceToken);
+
+    return {
+      status: 200,
+      body: {
+        response_action: "clear",
+      },
+    };
+  } catch (error) {
+    logger.error("Error adding retro item:", error);
+
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: {
+          retro_item: error instanceof ValidationError || error instanceof NotFoundError
+            ? error.message
+            : "Error adding the item. Please try again.",
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Applies the facilitator's grouping from the group retro items modal. Items grouped
+ * with an item that is itself grouped go to the item at the end of the chain.
+ */
+export async function handleGroupRetroItemsSubmission(
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  const metadata = JSON.parse(String(payload.view?.private_metadata || "{}"));
+  const state = payload.view?.state.values ?? {};
+
+  // The decision for each item, by item ID
+  const decisions = new Map(
+    Object.entries(state)
+      .filter(([blockId]) => blockId.startsWith("retro_item_"))
+      .map(([blockId, value]) => [
+        blockId.replace("retro_item_", ""),
+        value.retro_item_decision?.selected_option?.value ?? "keep",
+      ]),
+  );
+
+  // Follow groupings with grouped items, and reject groupings that go round in a circle
+  const resolved = resolveMerges(decisions, "group_");
+  if (resolved.circularId !== undefined) {
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: { [`retro_item_${resolved.circularId}`]: "Items can't be grouped with each other" },
+      },
+    };
+  }
+
+  const groupings = resolved.merges;
+
+  try {
+    const session = await retroService.getSessionById(metadata.sessionId);
+    validateFacilitator(session, payload.user.id, "group its items");
+
+    if (session.status !== "collecting") {
+      throw new ValidationError("This retro is no longer collecting items.");
+    }
+
+    for (const [itemId, targetId] of groupings) {
+      await retroService.groupItem(session.id, itemId, targetId);
+    }
+
+    logger.info("Retro items grouped", { sessionId: session.id, grouped: groupings.size });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+    await updateRetroBoard(session, workspaceToken);
+
+    return {
+      status: 200,
+      body: {
+        response_action: "clear",
+      },
+    };
+  } catch (error) {
+    logger.error("Error grouping retro items:", error);
+
+    // Show the error on the first item, as the modal has no other inputs
+    const [firstBlockId = "retro_item"] = Object.keys(state);
+    return {
+      status: 200,
+      body: {
+        response_action: "errors",
+        errors: {
+          [firstBlockId]: error instanceof Error
+            ? error.message
+            : "Error applying the grouping. Please try again.",
+        },
+      },
+    };
+  }
+}
@@ -1,7 +1,13 @@
 import { createResultsBlocks } from "@slack/services/blocks.ts";
 import { InteractionResponse, SlackInteraction } from "../types.ts";
 import logger from "@utils/logger.ts";
-import { createErrorResponse, sendResultsViaResponseUrl } from "../vote-utils.ts";
+import {
+  canSeeResults,
+  createErrorResponse,
+  createResultsNotAvailableMessage,
+  sendResponseUrlMessage,
+  sendResultsViaResponseUrl,
+} from "../vote-utils.ts";
 import { votesService } from "@db/prisma.ts";
 
 export async function handleShowVoteResults(
@@ -26,7 +32,7 @@ export async function handleShowVoteResults(
   try {
     // Get the vote results from the database
     logger.debug("Fetching vote results for ID:", voteId);
-    const results = await votesService.getVoteResults(voteId);
+    const results = await votesService.getVoteResults(voteId, payload.user.id);
 
     if (!results) {
       logger.error("No results found for vote ID:", voteId);
@@ -34,7 +40,20 @@ export async function handleShowVoteResults(
     }
 
     // Format the results
-    const { vote, results: voteResults } = results;
+    const { vote, results: voteResults, questions } = results;
+
+    // The button is shown to everyone, so check who may see the results of an open vote
+    if (!canSeeResults(vote, payload.user.id)) {
+      const message = createResultsNotAvailableMessage(vote);
+      if (payload.response_url) {
+        await sendResponseUrlMessage(payload.response_url, message, {
+          title: "Results Not Available",
+        });
+        return { status: 200, body: {} };
+      }
+
+      return createErrorResponse(message, "Results Not Available");
+    }
 
     if (payload.response_url) {
       await sendResultsViaResponseUrl(
@@ -42,6 +61,7 @@ export async function handleShowVoteResults(
         voteResults,
         payload.response_url,
         createResultsBlocks,
+        questions,
       );
     } else {
       logger.warn("No response_url found in payload");
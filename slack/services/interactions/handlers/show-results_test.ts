@@ -150,6 +150,57 @@ describe(
       assertEquals(response.body, {});
     });
 
+    it("only shows the results of an open vote to those its visibility allows", async () => {
+      // Mock the response_url, collecting every message sent to it
+      const originalFetch = globalThis.fetch;
+      const sentMessages: string[] = [];
+      globalThis.fetch = (_url: string | URL | Request, init?: RequestInit) => {
+        sentMessages.push(String(init?.body));
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ ok: true }),
+          text: () => Promise.resolve("ok"),
+        } as Response);
+      };
+
+      try {
+        // Hidden results aren't shown before the end, even to the creator
+        await prisma.vote.update({
+          where: { id: testVoteId },
+          data: { isEnded: false, resultsVisibility: "hidden" },
+        });
+        await handleShowVoteResults(mockAction, mockPayload, testWorkspaceId);
+        assertStringIncludes(sentMessages.join(""), "will be available once the vote has ended");
+
+        // Live results for the creator aren't shown to other users
+        const otherUserPayload = { ...mockPayload, user: { id: "U87654321" } };
+        await prisma.vote.update({
+          where: { id: testVoteId },
+          data: { resultsVisibility: "creator" },
+        });
+        sentMessages.length = 0;
+        await handleShowVoteResults(mockAction, otherUserPayload, testWorkspaceId);
+        assertStringIncludes(sentMessages.join(""), "Results Not Available");
+
+        sentMessages.length = 0;
+        await handleShowVoteResults(mockAction, mockPayload, testWorkspaceId);
+        assertStringIncludes(sentMessages.join(""), "Option 1");
+
+        // Live results for everyone are shown to other users
+        await prisma.vote.update({
+          where: { id: testVoteId },
+          data: { resultsVisibility: "everyone" },
+        });
+        sentMessages.length = 0;
+        await handleShowVoteResults(mockAction, otherUserPayload, testWorkspaceId);
+        assertStringIncludes(sentMessages.join(""), "Option 1");
+        assertEquals(sentMessages.join("").includes("Results Not Available"), false);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
     it("returns error for non-existent vote", async () => {
       // Create a valid UUID that doesn't exist in the database
       const nonExistentId = crypto.randomUUID();
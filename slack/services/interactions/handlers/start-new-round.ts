@@ -0,0 +1,77 @@
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import logger from "@utils/logger.ts";
+import { createErrorResponse, sendResponseUrlMessage, validateVoteCreator } from "../vote-utils.ts";
+import { postVoteToChannel } from "../vote-creation.ts";
+import { votesService, workspaceService } from "@db/prisma.ts";
+import { UnauthorizedError } from "@db/errors.ts";
+
+/**
+ * Starts a new round of a revealed vote, e.g. to estimate again after discussing
+ * planning poker outliers. The new round is posted as a new vote message.
+ */
+export async function handleStartNewRound(
+  action: NonNullable<SlackInteraction["actions"]>[number],
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  logger.info("Handling start new round action:", { action });
+
+  if (!action.value) {
+    return createErrorResponse("No vote ID was provided.");
+  }
+
+  // Extract vote ID from the action value (format: "round_<id>")
+  const voteId = action.value.replace("round_", "");
+
+  try {
+    const vote = await votesService.getVoteById(voteId);
+
+    // Only the creator can start a new round, as only they can reveal it
+    try {
+      validateVoteCreator(vote, payload.user.id, "re-vote");
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError)) {
+        throw error;
+      }
+
+      if (payload.response_url) {
+        await sendResponseUrlMessage(payload.response_url, error.message, {
+          title: "Permission Denied",
+          isError: true,
+        });
+      }
+
+      return createErrorResponse(error.message, "Permission Denied");
+    }
+
+    if (!vote.isEnded) {
+      return createErrorResponse(
+        `Vote "${vote.title}" is still open. Reveal it before starting a new round.`,
+        "Vote Still Open",
+      );
+    }
+
+    const newRound = await votesService.startNextRound(voteId);
+    if (!newRound) {
+      const message = `A new round of "${vote.title}" has already been started.`;
+      if (payload.response_url) {
+        await sendResponseUrlMessage(payload.response_url, message, { title: "Round Started" });
+      }
+
+      return createErrorResponse(message, "Round Started");
+    }
+
+    logger.info("New round started", { voteId, newVoteId: newRound.id, round: newRound.round });
+
+    const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+
+    // A failed post is reported to the user with an ephemeral message
+    await postVoteToChannel(newRound, workspaceToken, payload.user.id);
+
+    return { status: 200, body: {} };
+  } catch (error) {
+    logger.error("Error starting new round:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(errorMessage, "Error Starting New Round");
+  }
+}
@@ -0,0 +1,96 @@
+import { createVoteListBlocks, SlackBlock } from "@slack/services/blocks.ts";
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import logger from "@utils/logger.ts";
+import { createErrorResponse } from "../vote-utils.ts";
+import { votesService } from "@db/prisma.ts";
+import type { VoteListFilter } from "@db/votes.ts";
+import { postToSlackApi } from "@utils/http-client.ts";
+
+// Number of votes shown on each page of the list
+const VOTE_LIST_PAGE_SIZE = 5;
+
+// Filters accepted by /qvote list
+export const VOTE_LIST_FILTERS: VoteListFilter[] = ["all", "open", "ended", "mine"];
+
+/**
+ * Creates one page of the vote list for a channel
+ * @param page Zero-based page index, clamped to the last page
+ */
+export async function createVoteListMessage(
+  workspaceId: string,
+  channelId: string,
+  userId: string,
+  filter: VoteListFilter,
+  page: number,
+): Promise<{ text: string; blocks: SlackBlock[] }> {
+  const listParams = {
+    workspaceId,
+    channelId,
+    filter,
+    userId,
+    pageSize: VOTE_LIST_PAGE_SIZE,
+  };
+
+  let currentPage = Math.max(page, 0);
+  let { votes, total } = await votesService.listChannelVotes({ ...listParams, page: currentPage });
+  const pageCount = Math.ceil(total / VOTE_LIST_PAGE_SIZE);
+
+  // Votes may have been deleted since the list was shown, so fall back to the last page
+  if (votes.length === 0 && currentPage > 0 && pageCount > 0) {
+    currentPage = pageCount - 1;
+    ({ votes, total } = await votesService.listChannelVotes({ ...listParams, page: currentPage }));
+  }
+
+  return {
+    text: `${total} ${total === 1 ? "vote" : "votes"} in this channel`,
+    blocks: createVoteListBlocks(votes, { filter, page: currentPage, pageCount, total }),
+  };
+}
+
+// Handle the Previous and Next buttons of the vote list
+export async function handleVoteListPage(
+  action: NonNullable<SlackInteraction["actions"]>[number],
+  payload: SlackInteraction,
+  workspaceId: string,
+): Promise<InteractionResponse> {
+  logger.info("Handling vote list page action:", { action });
+
+  if (!action.value) {
+    return createErrorResponse("No page was provided.", "Missing Information");
+  }
+
+  try {
+    // The button value has the format {"filter": "...", "page": n}
+    const { filter, page } = JSON.parse(action.value) as { filter: VoteListFilter; page: number };
+
+    if (!VOTE_LIST_FILTERS.includes(filter) || !Number.isInteger(page)) {
+      return createErrorResponse("Invalid vote list page.", "Invalid Page");
+    }
+
+    const message = await createVoteListMessage(
+      workspaceId,
+      payload.channel.id,
+      payload.user.id,
+      filter,
+      page,
+    );
+
+    // Replace the ephemeral list with the requested page
+    if (payload.response_url) {
+      await postToSlackApi(payload.response_url, {
+        response_type: "ephemeral",
+        replace_original: true,
+        ...message,
+      });
+    } else {
+      logger.warn("No response_url found in payload");
+    }
+
+    // Return an empty 200 response to acknowledge receipt
+    return { status: 200, body: {} };
+  } catch (error) {
+    logger.error("Error showing vote list page:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(errorMessage, "Error Listing Votes");
+  }
+}
@@ -0,0 +1,77 @@
+import { createVoterBreakdownBlocks } from "@slack/services/blocks.ts";
+import { InteractionResponse, SlackInteraction } from "../types.ts";
+import logger from "@utils/logger.ts";
+import {
+  canSeeResults,
+  createErrorResponse,
+  respondToAction,
+  validateVoteCreator,
+} from "../vote-utils.ts";
+import { votesService } from "@db/prisma.ts";
+import { UnauthorizedError } from "@db/errors.ts";
+import { postToSlackApi } from "@utils/http-client.ts";
+
+/**
+ * Shows how each voter voted, for votes whose ballots aren't anonymous. Ballots visible
+ * to the creator are only shown to them, and public ballots to everyone. While the vote
+ * is open, ballots are only shown to those who can see its live results.
+ */
+export async function handleShowVoterBreakdown(
+  action: NonNullable<SlackInteraction["actions"]>[number],
+  payload: SlackInteraction,
+  _workspaceId: string,
+): Promise<InteractionResponse> {
+  if (!action.value) {
+    return createErrorResponse("No vote ID was provided.", "Missing Information");
+  }
+
+  // Extract vote ID from the action value (format: "ballots_<id>")
+  const voteId = action.value.replace("ballots_", "");
+
+  try {
+    const vote = await votesService.getVoteById(voteId);
+
+    if (vote.ballotVisibility === "anonymous") {
+      return await respondToAction(
+        payload,
+        "The ballots of this vote are anonymous.",
+        "Anonymous Ballots",
+      );
+    }
+
+    if (vote.ballotVisibility === "creator") {
+      validateVoteCreator(vote, payload.user.id, "see the ballots of");
+    }
+
+    if (!canSeeResults(vote, payload.user.id)) {
+      return await respondToAction(
+        payload,
+        `Ballots for "${vote.title}" will be available once the vote has ended.`,
+        "Ballots Not Available",
+      );
+    }
+
+    const ballots = await votesService.getVoterBallots(voteId);
+
+    if (payload.response_url) {
+      await postToSlackApi(payload.response_url, {
+        response_type: "ephemeral",
+        text: `Ballots for "${vote.title}"`, // Fallback text
+        blocks: createVoterBreakdownBlocks(vote, ballots),
+        replace_original: false,
+      });
+    } else {
+      logger.warn("No response_url found in payload");
+    }
+
+    return { status: 200, body: {} };
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return await respondToAction(payload, error.message, "Permission Denied", true);
+    }
+
+    logger.error("Error showing voter breakdown:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(errorMessage, "Error Showing Ballots");
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Messages of retro sessions: the board that collects items and the action list posted
+ * when the vote on the grouped items ends.
+ */
+import { createRetroActionListBlocks, createRetroBoardBlocks } from "../blocks.ts";
+import logger from "@utils/logger.ts";
+import { retroService, votesService } from "@db/prisma.ts";
+import { postToSlackApi } from "@utils/http-client.ts";
+
+/**
+ * Posts the board message of a new retro session and remembers where it was posted
+ * @returns Whether the board could be posted to the channel
+ */
+export async function postRetroBoard(
+  session: { id: string; channelId: string },
+  workspaceToken: string,
+): Promise<{ ok: boolean; error?: string }> {
+  const board = await retroService.getSessionById(session.id);
+
+  const postResponse = await postToSlackApi(
+    "https://slack.com/api/chat.postMessage",
+    {
+      channel: board.channelId,
+      blocks: JSON.stringify(createRetroBoardBlocks(board)),
+      text: `Retro: ${board.title}`, // Fallback text if blocks don't render
+    },
+    {
+      Authorization: `Bearer ${workspaceToken}`,
+    },
+  );
+
+  const postResult = await postResponse.json();
+  if (!postResult.ok) {
+    logger.warn("Failed to post retro board", { error: postResult.error, sessionId: session.id });
+    return { ok: false, error: postResult.error };
+  }
+
+  await retroService.setSessionMessage(
+    session.id,
+    postResult.channel ?? board.channelId,
+    postResult.ts,
+  );
+
+  return { ok: true };
+}
+
+/**
+ * Updates the board message of a retro session with its latest items and status
+ */
+export async function updateRetroBoard(
+  session: { id: string },
+  workspaceToken: string,
+): Promise<void> {
+  try {
+    const board = await retroService.getSessionById(session.id);
+    if (!board.messageTs) {
+      return;
+    }
+
+    const updateResponse = await postToSlackApi(
+      "https://slack.com/api/chat.update",
+      {
+        channel: board.messageChannel ?? board.channelId,
+        ts: board.messageTs,
+        blocks: JSON.stringify(createRetroBoardBlocks(board)),
+        text: `Retro: ${board.title}`,
+      },
+      {
+        Authorization: `Bearer ${workspaceToken}`,
+      },
+    );
+
+    const updateResult = await updateResponse.json();
+    if (!updateResult.ok) {
+      logger.warn("Failed to update retro board", {
+        error: updateResult.error,
+        sessionId: session.id,
+      });
+    }
+  } catch (error) {
+    logger.error("Error updating retro board", error);
+  }
+}
+
+/**
+ * Posts the ranked action list of a retro in the thread of its ended vote, and marks
+ * the retro as ended. Does nothing for votes that weren't started from a retro.
+ * Called wherever a vote is ended, after its results are announced.
+ */
+export async function announceRetroActionList(
+  vote: { id: string },
+  workspaceToken: string,
+): Promise<void> {
+  try {
+    const session = await retroService.getSessionByVoteId(vote.id);
+    if (!session) {
+      return;
+    }
+
+    await retroService.markEnded(session.id);
+
+    const { vote: endedVote, results } = await votesService.getVoteResults(vote.id);
+
+    const postResponse = await postToSlackApi(
+      "https://slack.com/api/chat.postMessage",
+      {
+        channel: endedVote.messageChannel ?? endedVote.channelId,
+        text: `Action list for "${session.title}"`, // Fallback text
+        blocks: JSON.stringify(createRetroActionListBlocks(session, results)),
+        ...(endedVote.messageTs ? { thread_ts: endedVote.messageTs } : {}),
+      },
+      {
+        Authorization: `Bearer ${workspaceToken}`,
+      },
+    );
+
+    const postResult = await postResponse.json();
+    if (!postResult.ok) {
+      logger.warn("Failed to post retro action list", {
+        error: postResult.error,
+        sessionId: session.id,
+      });
+    }
+
+    await updateRetroBoard(session, workspaceToken);
+  } catch (error) {
+    logger.error("Error announcing retro action list", error);
+  }
+}
@@ -2,6 +2,25 @@ import { InteractionResponse, SlackInteraction } from "./types.ts";
 import { handleCreateVoteSubmission } from "./vote-creation.ts";
 import { handleEndVote } from "./handlers/end-vote.ts";
 import { handleShowVoteResults } from "./handlers/show-results.ts";
+import { handleShowVoterBreakdown } from "./handlers/voter-breakdown.ts";
+import { handleVoteListPage } from "./handlers/vote-list.ts";
+import { handleRemindNonVoters } from "./handlers/remind-voters.ts";
+import { handleStartNewRound } from "./handlers/start-new-round.ts";
+import {
+  handleLockOptions,
+  handleProposeOption,
+  handleProposeOptionSubmission,
+  handleReviewProposals,
+  handleReviewProposalsSubmission,
+} from "./handlers/nomination.ts";
+import {
+  handleAddRetroItem,
+  handleAddRetroItemSubmission,
+  handleGroupRetroItems,
+  handleGroupRetroItemsSubmission,
+  handleStartRetroVote,
+} from "./handlers/retro.ts";
+import { handleBallotUpdate } from "./handlers/ballot-update.ts";
 import { handleOpenVoteModal } from "./vote-modal.ts";
 import { handleVoteSubmission } from "./vote-submission.ts";
 import logger from "@utils/logger.ts";
@@ -42,14 +61,40 @@ async function handleBlockActions(
   const action = payload.actions[0];
   logger.info("Handling action", { actionId: action.action_id });
 
+  // Actions from inside the voting modal come from the ballot as the voter fills it in
+  if (payload.view?.callback_id === "vote_submission") {
+    return await handleBallotUpdate(action, payload, workspaceId);
+  }
+
   switch (action.action_id) {
     case "open_vote_modal":
       return await handleOpenVoteModal(action, payload, workspaceId);
     case "show_vote_results":
       return await handleShowVoteResults(action, payload, workspaceId);
+    case "show_voter_breakdown":
+      return await handleShowVoterBreakdown(action, payload, workspaceId);
     case "end_vote":
       logger.debug("End vote action payload:", JSON.stringify(payload));
       return await handleEndVote(action, payload, workspaceId);
+    case "remind_non_voters":
+      return await handleRemindNonVoters(action, payload, workspaceId);
+    case "start_new_round":
+      return await handleStartNewRound(action, payload, workspaceId);
+    case "propose_option":
+      return await handleProposeOption(action, payload, workspaceId);
+    case "review_proposals":
+      return await handleReviewProposals(action, payload, workspaceId);
+    case "lock_options":
+      return await handleLockOptions(action, payload, workspaceId);
+    case "add_retro_item":
+      return await handleAddRetroItem(action, payload, workspaceId);
+    case "group_retro_items":
+      return await handleGroupRetroItems(action, payload, workspaceId);
+    case "start_retro_vote":
+      return await handleStartRetroVote(action, payload, workspaceId);
+    case "vote_list_previous_page":
+    case "vote_list_next_page":
+      return await handleVoteListPage(action, payload, workspaceId);
     default:
       logger.warn(`Unknown action`, { actionId: action.action_id });
       return createErrorResponse(
@@ -81,6 +126,14 @@ async function handleViewSubmission(
     return await handleCreateVoteSubmission(payload, workspaceId);
   } else if (callbackId === "vote_submission") {
     return await handleVoteSubmission(payload);
+  } else if (callbackId === "propose_option_submission") {
+    return await handleProposeOptionSubmission(payload, workspaceId);
+  } else if (callbackId === "review_proposals_submission") {
+    return await handleReviewProposalsSubmission(payload, workspaceId);
+  } else if (callbackId === "add_retro_item_submission") {
+    return await handleAddRetroItemSubmission(payload, workspaceId);
+  } else if (callbackId === "group_retro_items_submission") {
+    return await handleGroupRetroItemsSubmission(payload, workspaceId);
   } else {
     logger.warn(`Unknown view submission type`, { callbackId });
     return createErrorResponse(
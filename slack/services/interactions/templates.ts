@@ -3,6 +3,31 @@
  * Keeps the UI definitions separate from the handler logic.
  */
 import { SlackModalView } from "./slack-block-types.ts";
+import { createQuestionBallotBlocks } from "./ballot-questions.ts";
+import { type BallotVote, DEFAULT_MECHANISM, getMechanism, MECHANISMS } from "@mechanisms/index.ts";
+import type { ActiveProposal } from "@db/votes.ts";
+import type { RetroGroup } from "@db/retro.ts";
+import { describeBallotVisibility } from "../blocks.ts";
+
+/**
+ * Values used to pre-fill the vote creation modal, e.g. from slash command text
+ */
+export interface VoteCreationModalValues {
+  title?: string;
+  description?: string;
+  options?: string[];
+  mechanism?: string;
+  credits?: number;
+  budget?: number;
+  scale?: string;
+  allowOpposition?: boolean;
+  nominate?: boolean;
+  endDuration?: string;
+  broadcastResults?: boolean;
+  ballotVisibility?: string;
+  resultsVisibility?: string;
+  errorMessage?: string; // Shown above the form to explain why the modal was opened
+}
 
 /**
  * Creates a vote creation modal view object
@@ -10,8 +35,116 @@ import { SlackModalView } from "./slack-block-types.ts";
 export function createVoteCreationModalView(
   channelId: string,
   userId: string,
+  values: VoteCreationModalValues = {},
 ): SlackModalView {
-  return {
+  const mechanismOptions = Object.values(MECHANISMS).map((mechanism) => ({
+    text: {
+      type: "plain_text",
+      text: mechanism.name,
+      emoji: true,
+    },
+    description: {
+      type: "plain_text",
+      text: mechanism.description,
+      emoji: true,
+    },
+    value: mechanism.id,
+  }));
+  const selectedMechanism = mechanismOptions.find((option) =>
+    option.value === (values.mechanism ?? DEFAULT_MECHANISM)
+  );
+
+  // Preset scales of the voting modes that have them, e.g. planning poker estimates
+  const scaleOptions = Object.values(MECHANISMS).flatMap((mechanism) =>
+    Object.entries(mechanism.scales ?? {}).map(([id, scale]) => ({
+      text: {
+        type: "plain_text",
+        text: `${scale.name} (${scale.values.join(", ")})`,
+        emoji: true,
+      },
+      value: id,
+    }))
+  );
+  const selectedScale = scaleOptions.find((option) => option.value === values.scale);
+
+  const allowOppositionOption = {
+    text: {
+      type: "plain_text",
+      text: "Allow votes against options",
+      emoji: true,
+    },
+    value: "allow",
+  };
+
+  const nominateOption = {
+    text: {
+      type: "plain_text",
+      text: "Let channel members propose options",
+      emoji: true,
+    },
+    value: "nominate",
+  };
+
+  const broadcastResultsOption = {
+    text: {
+      type: "plain_text",
+      text: "Also send the results to the channel",
+      emoji: true,
+    },
+    value: "broadcast",
+  };
+
+  const ballotVisibilityOptions = [
+    { value: "anonymous", text: "Anonymous", description: "Nobody sees how each person voted" },
+    { value: "creator", text: "Visible to me", description: "Only you see how each person voted" },
+    { value: "public", text: "Public", description: "Everyone sees how each person voted" },
+  ].map((option) => ({
+    text: {
+      type: "plain_text",
+      text: option.text,
+      emoji: true,
+    },
+    description: {
+      type: "plain_text",
+      text: option.description,
+      emoji: true,
+    },
+    value: option.value,
+  }));
+  const selectedBallotVisibility =
+    ballotVisibilityOptions.find((option) => option.value === values.ballotVisibility) ??
+      ballotVisibilityOptions[0];
+
+  const resultsVisibilityOptions = [
+    { value: "hidden", text: "Hidden", description: "Nobody sees the results until the vote ends" },
+    {
+      value: "creator",
+      text: "Live for me",
+      description: "Only you see the results while it's open",
+    },
+    {
+      value: "everyone",
+      text: "Live for everyone",
+      description: "Everyone sees the results while it's open",
+    },
+  ].map((option) => ({
+    text: {
+      type: "plain_text",
+      text: option.text,
+      emoji: true,
+    },
+    description: {
+      type: "plain_text",
+      text: option.description,
+      emoji: true,
+    },
+    value: option.value,
+  }));
+  const selectedResultsVisibility =
+    resultsVisibilityOptions.find((option) => option.value === values.resultsVisibility) ??
+      resultsVisibilityOptions[1];
+
+  const view: SlackModalView = {
     type: "modal",
     callback_id: "create_vote_submission",
     title: {
@@ -40,6 +173,7 @@ export function createVoteCreationModalView(
             type: "plain_text",
             text: "Enter vote title",
           },
+          ...(values.title ? { initial_value: values.title } : {}),
         },
         label: {
           type: "plain_text",
@@ -59,6 +193,7 @@ export function createVoteCreationModalView(
             type: "plain_text",
             text: "Optional description",
           },
+          ...(values.description ? { initial_value: values.description } : {}),
         },
         label: {
           type: "plain_text",
@@ -69,6 +204,7 @@ export function createVoteCreationModalView(
       {
         type: "input",
         block_id: "vote_options",
+        optional: true, // Planning poker can use a preset scale instead
         element: {
           type: "plain_text_input",
           action_id: "vote_options_input",
@@ -77,12 +213,56 @@ export function createVoteCreationModalView(
             type: "plain_text",
             text: "Enter each option on a new line",
           },
+          ...(values.options?.length ? { initial_value: values.options.join("\n") } : {}),
         },
         label: {
           type: "plain_text",
           text: "Options",
           emoji: true,
         },
+        hint: {
+          type: "plain_text",
+          text:
+            'Participatory budgeting: add the cost after each option, e.g. "Refactor auth | 30". Planning poker: leave empty to use the estimation scale. Several questions: start each one with a line like "# What went well?", or "# What went well? | 25" for its own credits.',
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_nomination",
+        optional: true,
+        element: {
+          type: "checkboxes",
+          action_id: "vote_nomination_input",
+          options: [nominateOption],
+          ...(values.nominate ? { initial_options: [nominateOption] } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Proposals",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text:
+            "Channel members add options before voting, starting from the options above. Voting opens once you lock the options.",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_mechanism",
+        element: {
+          type: "static_select",
+          action_id: "vote_mechanism_input",
+          options: mechanismOptions,
+          ...(selectedMechanism ? { initial_option: selectedMechanism } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Voting Mode",
+          emoji: true,
+        },
       },
       {
         type: "input",
@@ -123,7 +303,7 @@ export function createVoteCreationModalView(
             type: "plain_text",
             text: "100",
           },
-          initial_value: "100",
+          initial_value: values.credits !== undefined ? String(values.credits) : "100",
         },
         label: {
           type: "plain_text",
@@ -132,7 +312,204 @@ export function createVoteCreationModalView(
         },
         hint: {
           type: "plain_text",
-          text: "Must be a perfect square (1, 4, 9, 16, 25, 36, 49, 64, 81, 100, etc.)",
+          text:
+            "Quadratic voting: must be a perfect square (1, 4, 9, 16, 25, 36, 49, 64, 81, 100, etc.). Dot voting: the number of dots per voter.",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_budget",
+        optional: true,
+        element: {
+          type: "plain_text_input",
+          action_id: "vote_budget_input",
+          placeholder: {
+            type: "plain_text",
+            text: "1000",
+          },
+          ...(values.budget !== undefined ? { initial_value: String(values.budget) } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Budget",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: "Participatory budgeting only: the total budget to fund options from",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_scale",
+        optional: true,
+        element: {
+          type: "static_select",
+          action_id: "vote_scale_input",
+          placeholder: {
+            type: "plain_text",
+            text: "Choose a scale",
+          },
+          options: scaleOptions,
+          ...(selectedScale ? { initial_option: selectedScale } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Estimation Scale",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: "Planning poker only: the estimates to pick from when no options are entered",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_allow_opposition",
+        optional: true,
+        element: {
+          type: "checkboxes",
+          action_id: "vote_allow_opposition_input",
+          options: [allowOppositionOption],
+          ...(values.allowOpposition ? { initial_options: [allowOppositionOption] } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Opposition",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text:
+            "Quadratic voting only: voters can spend credits against an option at the same cost",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_start_time",
+        optional: true,
+        element: {
+          type: "datetimepicker",
+          action_id: "vote_start_time_input",
+        },
+        label: {
+          type: "plain_text",
+          text: "Opens At",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: "Leave empty to open the vote immediately",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_end_duration",
+        optional: true,
+        element: {
+          type: "plain_text_input",
+          action_id: "vote_end_duration_input",
+          placeholder: {
+            type: "plain_text",
+            text: "e.g. 2h, 3d or in 2 days (counted from when the vote opens)",
+          },
+          ...(values.endDuration ? { initial_value: values.endDuration } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Ends In",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: "Leave both end fields empty to keep the vote open until you end it",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_end_time",
+        optional: true,
+        element: {
+          type: "datetimepicker",
+          action_id: "vote_end_time_input",
+        },
+        label: {
+          type: "plain_text",
+          text: "Or Ends At",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: "A specific date and time in your timezone",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_broadcast_results",
+        optional: true,
+        element: {
+          type: "checkboxes",
+          action_id: "vote_broadcast_results_input",
+          options: [broadcastResultsOption],
+          ...(values.broadcastResults ? { initial_options: [broadcastResultsOption] } : {}),
+        },
+        label: {
+          type: "plain_text",
+          text: "Results",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text: "The results are posted in a thread under the vote when it ends",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_ballot_visibility",
+        element: {
+          type: "radio_buttons",
+          action_id: "vote_ballot_visibility_input",
+          options: ballotVisibilityOptions,
+          initial_option: selectedBallotVisibility,
+        },
+        label: {
+          type: "plain_text",
+          text: "Ballots",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text:
+            "Voters are told who can see their ballot. Visible ballots are shown from the results.",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "vote_results_visibility",
+        element: {
+          type: "radio_buttons",
+          action_id: "vote_results_visibility_input",
+          options: resultsVisibilityOptions,
+          initial_option: selectedResultsVisibility,
+        },
+        label: {
+          type: "plain_text",
+          text: "Live results",
+          emoji: true,
+        },
+        hint: {
+          type: "plain_text",
+          text:
+            "Hide the standings while the vote is open to keep early votes from swaying later ones",
           emoji: true,
         },
       },
@@ -142,26 +519,28 @@ export function createVoteCreationModalView(
       userId,
     }),
   };
+
+  // Explain why the form was pre-filled instead of the vote being created directly
+  if (values.errorMessage) {
+    view.blocks.unshift({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `:warning: ${values.errorMessage}`,
+        },
+      ],
+    });
+  }
+
+  return view;
 }
 
 /**
- * Creates a voting modal view object
+ * Creates a voting modal view object. The ballot itself comes from the vote's mechanism.
  */
-export function createVotingModalView(vote: {
-  id: string;
-  title: string;
-  description?: string | null;
-  creditsPerUser: number;
-  creditsUsed?: number;
-  options: string[];
-  previousVotes?: Array<{
-    optionIndex: number;
-    credits: number;
-  }>;
-}): SlackModalView {
-  const options = vote.options as string[];
-
-  const view: SlackModalView = {
+export function createVotingModalView(vote: BallotVote): SlackModalView {
+  return {
     type: "modal",
     callback_id: "vote_submission",
     title: {
@@ -187,71 +566,25 @@ export function createVotingModalView(vote: {
           text: `*${vote.title}*${vote.description ? `\n${vote.description}` : ""}`,
         },
       },
-      {
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: vote.creditsUsed !== undefined
-            ? `You have *${vote.creditsPerUser}* total credits to distribute (${vote.creditsUsed} used, ${
-              vote.creditsPerUser - vote.creditsUsed
-            } remaining). Cost increases quadratically: 1 vote = 1 credit, 2 votes = 4 credits, etc. *You must use perfect square numbers only* (1, 4, 9, 16, 25, 36, etc.).`
-            : `You have *${vote.creditsPerUser}* credits to distribute. Cost increases quadratically: 1 vote = 1 credit, 2 votes = 4 credits, etc. *You must use perfect square numbers only* (1, 4, 9, 16, 25, 36, etc.).`,
-        },
-      },
-      {
-        type: "divider",
-      },
+      ...(vote.questions
+        ? createQuestionBallotBlocks(vote.questions)
+        : getMechanism(vote.mechanism).createBallotBlocks(vote)),
+      ...(vote.ballotVisibility
+        ? [{
+          type: "context",
+          elements: [
+            {
+              type: "mrkdwn",
+              text: describeBallotVisibility(vote.ballotVisibility),
+            },
+          ],
+        }]
+        : []),
     ],
     private_metadata: JSON.stringify({
       voteId: vote.id,
     }),
   };
-
-  // Add input blocks for each option
-  for (let index = 0; index < options.length; index++) {
-    const option = options[index];
-
-    // Add section for the option
-    view.blocks.push({
-      type: "section",
-      text: {
-        type: "mrkdwn",
-        text: `*Option ${index + 1}:* ${option}`,
-      },
-    });
-
-    // Add input block for the option
-    view.blocks.push({
-      type: "input",
-      block_id: `option_${index}`,
-      element: {
-        type: "plain_text_input",
-        action_id: `credits_${index}`,
-        placeholder: {
-          type: "plain_text",
-          text: "0",
-        },
-        initial_value: vote.previousVotes
-          ? String(
-            vote.previousVotes.find((v) => v.optionIndex === index)
-              ?.credits || "0",
-          )
-          : "0",
-      },
-      label: {
-        type: "plain_text",
-        text: "Credits",
-        emoji: true,
-      },
-      hint: {
-        type: "plain_text",
-        text: "Use perfect squares only (1, 4, 9, 16, 25, 36, 49, 64, 81, 100, etc.)",
-        emoji: true,
-      },
-    });
-  }
-
-  return view;
 }
 
 /**
@@ -290,3 +623,341 @@ export function createVoteSuccessModalView(
     ],
   };
 }
+
+/**
+ * Creates the modal shown in place of the voting modal when a ballot couldn't be recorded
+ */
+export function createVoteErrorModalView(message: string): SlackModalView {
+  return {
+    type: "modal",
+    title: {
+      type: "plain_text",
+      text: "Vote Not Recorded",
+      emoji: true,
+    },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `:warning: ${message}`,
+        },
+      },
+    ],
+  };
+}
+
+// Slack allows at most 75 characters in the text of a select option
+const MAX_SELECT_OPTION_LENGTH = 75;
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+/**
+ * Creates the modal for proposing an option while a vote takes proposals
+ */
+export function createProposeOptionModalView(vote: { id: string; title: string }): SlackModalView {
+  return {
+    type: "modal",
+    callback_id: "propose_option_submission",
+    title: {
+      type: "plain_text",
+      text: "Propose Option",
+      emoji: true,
+    },
+    submit: {
+      type: "plain_text",
+      text: "Propose",
+      emoji: true,
+    },
+    close: {
+      type: "plain_text",
+      text: "Cancel",
+      emoji: true,
+    },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*${vote.title}*`,
+        },
+      },
+      {
+        type: "input",
+        block_id: "proposal",
+        element: {
+          type: "plain_text_input",
+          action_id: "proposal_input",
+          max_length: 150,
+          placeholder: {
+            type: "plain_text",
+            text: "Enter the option you'd like to vote on",
+          },
+        },
+        label: {
+          type: "plain_text",
+          text: "Option",
+          emoji: true,
+        },
+      },
+    ],
+    private_metadata: JSON.stringify({
+      voteId: vote.id,
+    }),
+  };
+}
+
+/**
+ * Creates the modal where the creator keeps, rejects or merges each proposed option
+ */
+export function createReviewProposalsModalView(
+  vote: { id: string; title: string },
+  proposals: ActiveProposal[],
+): SlackModalView {
+  const keepOption = {
+    text: {
+      type: "plain_text",
+      text: "Keep",
+      emoji: true,
+    },
+    value: "keep",
+  };
+
+  return {
+    type: "modal",
+    callback_id: "review_proposals_submission",
+    title: {
+      type: "plain_text",
+      text: "Review Proposals",
+      emoji: true,
+    },
+    submit: {
+      type: "plain_text",
+      text: "Apply",
+      emoji: true,
+    },
+    close: {
+      type: "plain_text",
+      text: "Cancel",
+      emoji: true,
+    },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            `*${vote.title}*\nReject options that don't belong in the vote, or merge options that propose the same thing. Everyone who proposed a merged option stays credited.`,
+        },
+      },
+      ...proposals.map((proposal, index) => ({
+        type: "input",
+        block_id: `proposal_${proposal.id}`,
+        element: {
+          type: "static_select",
+          action_id: "proposal_decision",
+          initial_option: keepOption,
+          options: [
+            keepOption,
+            {
+              text: {
+                type: "plain_text",
+                text: "Reject",
+                emoji: true,
+              },
+              value: "reject",
+            },
+            ...proposals.flatMap((other, otherIndex) =>
+              other.id === proposal.id ? [] : [{
+                text: {
+                  type: "plain_text",
+                  text: truncate(
+                    `Merge into ${otherIndex + 1}. ${other.text}`,
+                    MAX_SELECT_OPTION_LENGTH,
+                  ),
+                  emoji: true,
+                },
+                value: `merge_${other.id}`,
+              }]
+            ),
+          ],
+        },
+        label: {
+          type: "plain_text",
+          text: `${index + 1}. ${proposal.text}`,
+          emoji: true,
+        },
+      })),
+    ],
+    private_metadata: JSON.stringify({
+      voteId: vote.id,
+    }),
+  };
+}
+
+/**
+ * Creates the modal for adding an item to one of the columns of a retro
+ */
+export function createAddRetroItemModalView(session: {
+  id: string;
+  title: string;
+  columns: string[];
+  isAnonymous: boolean;
+}): SlackModalView {
+  const columnOptions = session.columns.map((column, index) => ({
+    text: {
+      type: "plain_text",
+      text: column,
+      emoji: true,
+    },
+    value: String(index),
+  }));
+
+  return {
+    type: "modal",
+    callback_id: "add_retro_item_submission",
+    title: {
+      type: "plain_text",
+      text: "Add Retro Item",
+      emoji: true,
+    },
+    submit: {
+      type: "plain_text",
+      text: "Add",
+      emoji: true,
+    },
+    close: {
+      type: "plain_text",
+      text: "Cancel",
+      emoji: true,
+    },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*${session.title}*${
+            session.isAnonymous ? "\nItems are added anonymously, nobody sees who added them." : ""
+          }`,
+        },
+      },
+      {
+        type: "input",
+        block_id: "retro_column",
+        element: {
+          type: "static_select",
+          action_id: "retro_column_select",
+          initial_option: columnOptions[0],
+          options: columnOptions,
+        },
+        label: {
+          type: "plain_text",
+          text: "Column",
+          emoji: true,
+        },
+      },
+      {
+        type: "input",
+        block_id: "retro_item",
+        element: {
+          type: "plain_text_input",
+          action_id: "retro_item_input",
+          max_length: 150,
+          placeholder: {
+            type: "plain_text",
+            text: "Enter something the team should discuss",
+          },
+        },
+        label: {
+          type: "plain_text",
+          text: "Item",
+          emoji: true,
+        },
+      },
+    ],
+    private_metadata: JSON.stringify({
+      sessionId: session.id,
+    }),
+  };
+}
+
+/**
+ * Creates the modal where the facilitator groups retro items that say the same thing
+ */
+export function createGroupRetroItemsModalView(
+  session: { id: string; title: string },
+  groups: RetroGroup[],
+): SlackModalView {
+  const keepOption = {
+    text: {
+      type: "plain_text",
+      text: "Keep",
+      emoji: true,
+    },
+    value: "keep",
+  };
+
+  return {
+    type: "modal",
+    callback_id: "group_retro_items_submission",
+    title: {
+      type: "plain_text",
+      text: "Group Retro Items",
+      emoji: true,
+    },
+    submit: {
+      type: "plain_text",
+      text: "Apply",
+      emoji: true,
+    },
+    close: {
+      type: "plain_text",
+      text: "Cancel",
+      emoji: true,
+    },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            `*${session.title}*\nGroup items that say the same thing, so the team votes on them once.`,
+        },
+      },
+      ...groups.map((group, index) => ({
+        type: "input",
+        block_id: `retro_item_${group.id}`,
+        element: {
+          type: "static_select",
+          action_id: "retro_item_decision",
+          initial_option: keepOption,
+          options: [
+            keepOption,
+            ...groups.flatMap((other, otherIndex) =>
+              other.id === group.id ? [] : [{
+                text: {
+                  type: "plain_text",
+                  text: truncate(
+                    `Group with ${otherIndex + 1}. ${other.text}`,
+                    MAX_SELECT_OPTION_LENGTH,
+                  ),
+                  emoji: true,
+                },
+                value: `group_${other.id}`,
+              }]
+            ),
+          ],
+        },
+        label: {
+          type: "plain_text",
+          text: `${index + 1}. ${group.option}`,
+          emoji: true,
+        },
+      })),
+    ],
+    private_metadata: JSON.stringify({
+      sessionId: session.id,
+    }),
+  };
+}
@@ -1,5 +1,6 @@
 import { assertEquals, assertStringIncludes } from "@std/assert";
 import {
+  createReviewProposalsModalView,
   createVoteCreationModalView,
   createVoteSuccessModalView,
   createVotingModalView,
@@ -19,8 +20,8 @@ Deno.test("createVoteCreationModalView creates proper modal structure", () => {
   assertEquals(modal.submit?.text, "Create");
   assertEquals(modal.close?.text, "Cancel");
 
-  // Verify blocks count (should be 5 input blocks)
-  assertEquals(modal.blocks.length, 5);
+  // Verify blocks count (should be 16 input blocks)
+  assertEquals(modal.blocks.length, 16);
 
   // Verify title input
   const titleBlock = modal.blocks[0] as SlackInputBlock;
@@ -40,8 +41,25 @@ Deno.test("createVoteCreationModalView creates proper modal structure", () => {
   assertEquals(optionsBlock.block_id, "vote_options");
   assertEquals(optionsBlock.element.multiline, true);
 
+  // Verify the proposals setting (optional, unchecked by default)
+  const nominationBlock = modal.blocks[3] as SlackInputBlock;
+  assertEquals(nominationBlock.block_id, "vote_nomination");
+  assertEquals(nominationBlock.optional, true);
+  assertEquals(nominationBlock.element.type, "checkboxes");
+  assertEquals(nominationBlock.element.initial_options, undefined);
+
+  // Verify the voting mode, quadratic voting by default
+  const mechanismBlock = modal.blocks[4] as SlackInputBlock;
+  assertEquals(mechanismBlock.block_id, "vote_mechanism");
+  assertEquals(mechanismBlock.element.type, "static_select");
+  assertEquals(
+    (mechanismBlock.element.options as { value: string }[]).map((option) => option.value),
+    ["quadratic", "approval", "dot", "irv", "schulze", "budget", "poker", "judgment", "score"],
+  );
+  assertEquals((mechanismBlock.element.initial_option as { value: string }).value, "quadratic");
+
   // Verify allowed voters (optional)
-  const votersBlock = modal.blocks[3] as SlackInputBlock;
+  const votersBlock = modal.blocks[5] as SlackInputBlock;
   assertEquals(votersBlock.type, "input");
   assertEquals(votersBlock.block_id, "vote_allowed_voters");
   assertEquals(votersBlock.optional, true);
@@ -57,11 +75,69 @@ Deno.test("createVoteCreationModalView creates proper modal structure", () => {
   assertEquals(filterObj.exclude_bot_users, true);
 
   // Verify credits input
-  const creditsBlock = modal.blocks[4] as SlackInputBlock;
+  const creditsBlock = modal.blocks[6] as SlackInputBlock;
   assertEquals(creditsBlock.type, "input");
   assertEquals(creditsBlock.block_id, "vote_credits");
   assertEquals(creditsBlock.element.initial_value, "100");
 
+  // Verify the budget input (optional, participatory budgeting only)
+  const budgetBlock = modal.blocks[7] as SlackInputBlock;
+  assertEquals(budgetBlock.block_id, "vote_budget");
+  assertEquals(budgetBlock.optional, true);
+  assertEquals(budgetBlock.element.initial_value, undefined);
+
+  // Verify the estimation scales (optional, planning poker only)
+  const scaleBlock = modal.blocks[8] as SlackInputBlock;
+  assertEquals(scaleBlock.block_id, "vote_scale");
+  assertEquals(scaleBlock.optional, true);
+  assertEquals(
+    (scaleBlock.element.options as { value: string }[]).map((option) => option.value),
+    ["fibonacci", "tshirt"],
+  );
+
+  // Verify the opposition setting (optional, unchecked by default)
+  const oppositionBlock = modal.blocks[9] as SlackInputBlock;
+  assertEquals(oppositionBlock.block_id, "vote_allow_opposition");
+  assertEquals(oppositionBlock.optional, true);
+  assertEquals(oppositionBlock.element.type, "checkboxes");
+  assertEquals(oppositionBlock.element.initial_options, undefined);
+
+  // Verify start time input (optional)
+  const startTimeBlock = modal.blocks[10] as SlackInputBlock;
+  assertEquals(startTimeBlock.block_id, "vote_start_time");
+  assertEquals(startTimeBlock.optional, true);
+  assertEquals(startTimeBlock.element.type, "datetimepicker");
+
+  // Verify end time inputs (optional)
+  const durationBlock = modal.blocks[11] as SlackInputBlock;
+  assertEquals(durationBlock.block_id, "vote_end_duration");
+  assertEquals(durationBlock.optional, true);
+  assertEquals(durationBlock.element.type, "plain_text_input");
+
+  const endTimeBlock = modal.blocks[12] as SlackInputBlock;
+  assertEquals(endTimeBlock.block_id, "vote_end_time");
+  assertEquals(endTimeBlock.optional, true);
+  assertEquals(endTimeBlock.element.type, "datetimepicker");
+
+  // Verify the results setting (optional, unchecked by default)
+  const broadcastBlock = modal.blocks[13] as SlackInputBlock;
+  assertEquals(broadcastBlock.block_id, "vote_broadcast_results");
+  assertEquals(broadcastBlock.optional, true);
+  assertEquals(broadcastBlock.element.type, "checkboxes");
+  assertEquals(broadcastBlock.element.initial_options, undefined);
+
+  // Verify the ballot visibility (anonymous by default)
+  const ballotsBlock = modal.blocks[14] as SlackInputBlock;
+  assertEquals(ballotsBlock.block_id, "vote_ballot_visibility");
+  assertEquals(ballotsBlock.element.type, "radio_buttons");
+  assertEquals((ballotsBlock.element.initial_option as { value: string }).value, "anonymous");
+
+  // Verify the results visibility (live for the creator by default)
+  const resultsBlock = modal.blocks[15] as SlackInputBlock;
+  assertEquals(resultsBlock.block_id, "vote_results_visibility");
+  assertEquals(resultsBlock.element.type, "radio_buttons");
+  assertEquals((resultsBlock.element.initial_option as { value: string }).value, "creator");
+
   // Verify private metadata
   const metadata = JSON.parse(modal.private_metadata || "{}");
   assertEquals(metadata.channelId, channelId);
@@ -97,7 +173,7 @@ Deno.test(
     const creditsBlock = modal.blocks[1] as SlackSectionBlock;
     assertEquals(creditsBlock.type, "section");
     assertStringIncludes(creditsBlock.text.text, "*100* credits");
-    assertStringIncludes(creditsBlock.text.text, "perfect square numbers");
+    assertStringIncludes(creditsBlock.text.text, "number of votes for each option");
 
     // Verify divider
     assertEquals(modal.blocks[2].type, "divider");
@@ -111,7 +187,7 @@ Deno.test(
     const option1InputBlock = modal.blocks[4] as SlackInputBlock;
     assertEquals(option1InputBlock.type, "input");
     assertEquals(option1InputBlock.block_id, "option_0");
-    assertEquals(option1InputBlock.element.action_id, "credits_0");
+    assertEquals(option1InputBlock.element.action_id, "votes_0");
     assertEquals(option1InputBlock.element.initial_value, "0");
 
     // Option 2
@@ -152,17 +228,17 @@ Deno.test("createVotingModalView handles previous votes correctly", () => {
   assertStringIncludes(creditsBlock.text.text, "25 used, 75 remaining");
 
   // Verify initial values for each option
-  // Option 1 (index 0) should have 16
+  // Option 1 (index 0) should have 4 votes (16 credits)
   const option1InputBlock = modal.blocks[4] as SlackInputBlock;
-  assertEquals(option1InputBlock.element.initial_value, "16");
+  assertEquals(option1InputBlock.element.initial_value, "4");
 
   // Option 2 (index 1) should have 0 (no previous vote)
   const option2InputBlock = modal.blocks[6] as SlackInputBlock;
   assertEquals(option2InputBlock.element.initial_value, "0");
 
-  // Option 3 (index 2) should have 9
+  // Option 3 (index 2) should have 3 votes (9 credits)
   const option3InputBlock = modal.blocks[8] as SlackInputBlock;
-  assertEquals(option3InputBlock.element.initial_value, "9");
+  assertEquals(option3InputBlock.element.initial_value, "3");
 });
 
 Deno.test("createVoteSuccessModalView creates proper success modal", () => {
@@ -218,3 +294,24 @@ Deno.test("createVotingModalView handles null description", () => {
   // Should not contain extra newline
   assertEquals(titleBlock.text.text.includes("\n"), false);
 });
+
+Deno.test("createReviewProposalsModalView offers to keep, reject or merge each proposal", () => {
+  const modal = createReviewProposalsModalView({ id: "vote-123", title: "Team lunch" }, [
+    { id: "p1", text: "Pizza", proposerIds: ["U1"] },
+    { id: "p2", text: "Pizzeria", proposerIds: ["U2"] },
+  ]);
+
+  assertEquals(modal.callback_id, "review_proposals_submission");
+  assertEquals(JSON.parse(modal.private_metadata || "{}").voteId, "vote-123");
+
+  const secondBlock = modal.blocks[2] as SlackInputBlock;
+  assertEquals(secondBlock.block_id, "proposal_p2");
+  assertEquals(secondBlock.label.text, "2. Pizzeria");
+  assertEquals((secondBlock.element.initial_option as { value: string }).value, "keep");
+  assertEquals(
+    (secondBlock.element.options as { text: { text: string }; value: string }[]).map((
+      option,
+    ) => [option.text.text, option.value]),
+    [["Keep", "keep"], ["Reject", "reject"], ["Merge into 1. Pizza", "merge_p1"]],
+  );
+});
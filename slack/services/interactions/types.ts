@@ -1,3 +1,13 @@
+// Define the structure of a single input value in a view's state
+export interface SlackViewStateValue {
+  type?: string;
+  value: string;
+  selected_date_time?: number; // Unix timestamp in seconds (datetimepicker)
+  selected_options?: Array<{ value: string }>; // Checked options (checkboxes)
+  selected_option?: { value: string } | null; // Chosen option (static_select)
+  [key: string]: unknown;
+}
+
 // Define the structure of a Slack interaction payload
 export interface SlackInteraction {
   type: string;
@@ -25,7 +35,7 @@ export interface SlackInteraction {
   view?: {
     id: string;
     state: {
-      values: Record<string, Record<string, { value: string }>>;
+      values: Record<string, Record<string, SlackViewStateValue>>;
     };
     private_metadata?: string;
     [key: string]: unknown;
@@ -1,5 +1,6 @@
 import logger from "@utils/logger.ts";
-import { haveAllVotersVoted, updateVoteMessage } from "./vote-utils.ts";
+import { announceVoteResults, haveAllVotersVoted, updateVoteMessage } from "./vote-utils.ts";
+import { announceRetroActionList } from "./retro.ts";
 import { votesService, workspaceService } from "@db/prisma.ts";
 
 /**
@@ -26,8 +27,10 @@ export async function checkAndAutoEndVote(
     }
 
     if (haveAllVotersVoted(vote, allowedVoters)) {
-      // End the vote automatically
-      await votesService.endVote(vote.id);
+      // End the vote automatically. Another ballot may have ended it first.
+      const endedByUs = await votesService.endVoteIfOpen(vote.id);
+      if (!endedByUs) return;
+
       logger.info(
         "Vote ended automatically because all participants have voted",
         {
@@ -40,8 +43,10 @@ export async function checkAndAutoEndVote(
         vote.workspaceId,
       );
 
-      // Update UI message
+      // Update UI message and announce the results
       await updateVoteMessage(vote, workspaceToken);
+      await announceVoteResults(vote, workspaceToken);
+      await announceRetroActionList(vote, workspaceToken);
     }
   } catch (error) {
     logger.error("Error in checkAndAutoEndVote", error);
@@ -1,11 +1,352 @@
+import { Vote } from "generated/index.d.ts";
 import { createErrorMessageBlocks, createVoteBlocks } from "../blocks.ts";
-import { InteractionResponse, SlackInteraction } from "./types.ts";
-import { createVoteCreationModalView, createVoteSuccessModalView } from "./templates.ts";
+import { InteractionResponse, SlackInteraction, SlackViewStateValue } from "./types.ts";
+import {
+  createVoteCreationModalView,
+  createVoteSuccessModalView,
+  VoteCreationModalValues,
+} from "./templates.ts";
 
 import logger from "@utils/logger.ts";
 import { votesService, workspaceService } from "@db/prisma.ts";
+import {
+  BALLOT_VISIBILITIES,
+  type BallotVisibility,
+  RESULTS_VISIBILITIES,
+  type ResultsVisibility,
+  type VoteQuestion,
+} from "@db/votes.ts";
 import { createErrorResponse } from "@slack/services/interactions/vote-utils.ts";
 import { postToSlackApi } from "@utils/http-client.ts";
+import { parseDuration } from "@utils/duration.ts";
+import { DEFAULT_MECHANISM, findMechanism, getMechanism } from "@mechanisms/index.ts";
+import { parseOptionCost } from "@mechanisms/budget.ts";
+
+/**
+ * Splits the costs off the options for voting modes that use them, e.g. "Refactor auth | 30".
+ * Voting modes with preset scales use the chosen scale when no options were entered.
+ */
+export function parseVoteOptions(
+  lines: string[],
+  mechanism?: string,
+  scale?: string,
+): { options: string[]; optionCosts: number[] | null } {
+  const votingMechanism = findMechanism(mechanism);
+
+  if (votingMechanism?.scales && lines.length === 0) {
+    const scales = Object.values(votingMechanism.scales);
+    return {
+      options: (scale && Object.hasOwn(votingMechanism.scales, scale)
+        ? votingMechanism.scales[scale]
+        : scales[0]).values,
+      optionCosts: null,
+    };
+  }
+
+  if (!votingMechanism?.usesOptionCosts) {
+    return { options: lines, optionCosts: null };
+  }
+
+  const parsed = lines.map(parseOptionCost);
+  return {
+    options: parsed.map(({ option }) => option),
+    optionCosts: parsed.map(({ cost }) => cost),
+  };
+}
+
+/**
+ * Splits the options into questions at lines starting with "#", e.g. "# What went well? | 25",
+ * where the number after the "|" gives the question its own credits
+ * @returns The questions, or null if the options don't start any questions
+ */
+export function parseVoteQuestions(lines: string[], credits: number): VoteQuestion[] | null {
+  if (!lines.some((line) => line.trim().startsWith("#"))) {
+    return null;
+  }
+
+  const questions: VoteQuestion[] = [];
+  for (const line of lines) {
+    if (line.trim().startsWith("#")) {
+      const { option: title, cost } = parseOptionCost(line.trim().replace(/^#+/, ""));
+      questions.push({ title, options: [], creditsPerUser: Number.isNaN(cost) ? credits : cost });
+      continue;
+    }
+
+    // Options before the first question are left without a title, to be reported as invalid
+    if (questions.length === 0) {
+      questions.push({ title: "", options: [], creditsPerUser: credits });
+    }
+    questions[questions.length - 1].options.push(line.trim());
+  }
+
+  return questions;
+}
+
+/**
+ * Validates the vote fields shared by the creation modal and the slash command
+ * @returns Error messages keyed by the modal block they belong to, or null if the fields are valid
+ */
+export function validateVoteFields(fields: {
+  title: string;
+  options: string[];
+  credits: number;
+  mechanism?: string;
+  allowOpposition?: boolean;
+  budget?: number | null;
+  optionCosts?: number[] | null;
+  questions?: VoteQuestion[] | null;
+  nominate?: boolean;
+  ballotVisibility?: string;
+  resultsVisibility?: string;
+}): Record<string, string> | null {
+  if (!fields.title) {
+    return { vote_title: "Title is required" };
+  }
+
+  if (
+    fields.ballotVisibility &&
+    !BALLOT_VISIBILITIES.includes(fields.ballotVisibility as BallotVisibility)
+  ) {
+    return { vote_ballot_visibility: "Ballots can be anonymous, visible to the creator or public" };
+  }
+
+  if (
+    fields.resultsVisibility &&
+    !RESULTS_VISIBILITIES.includes(fields.resultsVisibility as ResultsVisibility)
+  ) {
+    return {
+      vote_results_visibility: "Live results can be hidden, visible to the creator or to everyone",
+    };
+  }
+
+  if (fields.nominate) {
+    return validateNominationFields(fields);
+  }
+
+  if (fields.questions) {
+    return validateVoteQuestions({ ...fields, questions: fields.questions });
+  }
+
+  if (fields.options.length < 2) {
+    return { vote_options: "At least two options are required" };
+  }
+
+  if (fields.mechanism && !findMechanism(fields.mechanism)) {
+    return { vote_mechanism: `Unknown voting mode: ${fields.mechanism}` };
+  }
+
+  // The remaining settings depend on the voting mechanism
+  return getMechanism(fields.mechanism).validateSettings({
+    creditsPerUser: fields.credits,
+    allowOpposition: fields.allowOpposition,
+    budget: fields.budget,
+    optionCosts: fields.optionCosts,
+    options: fields.options,
+  });
+}
+
+// Validate a vote that takes proposed options. It can start with any number of options,
+// which are checked against the voting mode once the creator locks them.
+function validateNominationFields(
+  fields: Parameters<typeof validateVoteFields>[0],
+): Record<string, string> | null {
+  const mechanism = findMechanism(fields.mechanism);
+  if (!mechanism) {
+    return { vote_mechanism: `Unknown voting mode: ${fields.mechanism}` };
+  }
+
+  if (fields.questions || mechanism.usesOptionCosts || mechanism.scales) {
+    return {
+      vote_nomination: fields.questions
+        ? "Proposed options are only available for votes with one question"
+        : `${mechanism.name} doesn't support proposed options`,
+    };
+  }
+
+  return mechanism.validateSettings({
+    creditsPerUser: fields.credits,
+    allowOpposition: fields.allowOpposition,
+    budget: fields.budget,
+  });
+}
+
+// Validate each question of a multi-question vote like the options of a single question
+function validateVoteQuestions(
+  fields: Parameters<typeof validateVoteFields>[0] & { questions: VoteQuestion[] },
+): Record<string, string> | null {
+  const mechanism = findMechanism(fields.mechanism);
+  if (!mechanism) {
+    return { vote_mechanism: `Unknown voting mode: ${fields.mechanism}` };
+  }
+
+  if (mechanism.usesOptionCosts) {
+    return { vote_options: `${mechanism.name} doesn't support multiple questions` };
+  }
+
+  for (const question of fields.questions) {
+    if (!question.title) {
+      return { vote_options: 'Start each question with a line like "# What went well?"' };
+    }
+
+    const errors = question.options.length < 2
+      ? { vote_options: "At least two options are required" }
+      : mechanism.validateSettings({
+        creditsPerUser: question.creditsPerUser,
+        allowOpposition: fields.allowOpposition,
+        options: question.options,
+      });
+
+    if (errors) {
+      return Object.fromEntries(
+        Object.entries(errors).map(([blockId, error]) => [blockId, `${question.title}: ${error}`]),
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Posts a newly created vote to its channel. If that fails, the creator is told
+ * with an ephemeral message so they can invite the bot.
+ * @returns The chat.postMessage result
+ */
+export async function postVoteToChannel(
+  vote: Vote,
+  workspaceToken: string,
+  userId: string,
+): Promise<{ ok: boolean; error?: string }> {
+  // Create the blocks for the vote message
+  const blocks = JSON.stringify(createVoteBlocks(vote, ""));
+
+  // Post the vote message to the channel
+  logger.info("Posting message to channel", {
+    channelId: vote.channelId,
+  });
+
+  const postResponse = await postToSlackApi(
+    "https://slack.com/api/chat.postMessage",
+    {
+      channel: vote.channelId,
+      blocks: blocks,
+      text: `New vote: ${vote.title}`, // Fallback text if blocks don't render
+    },
+    {
+      Authorization: `Bearer ${workspaceToken}`,
+    },
+  );
+
+  const postResult = await postResponse.json();
+  logger.debug("Post message result", postResult);
+
+  // Remember the message so it can be updated without searching the channel history
+  if (postResult.ok && postResult.ts) {
+    try {
+      await votesService.setVoteMessage(
+        vote.id,
+        postResult.channel ?? vote.channelId,
+        postResult.ts,
+      );
+    } catch (error) {
+      logger.warn("Failed to store vote message timestamp", { voteId: vote.id, error });
+    }
+  }
+
+  // If we couldn't post to the channel, send an ephemeral message to the user
+  if (!postResult.ok) {
+    logger.warn(`Failed to post message`, { error: postResult.error });
+
+    const message =
+      `Your vote "${vote.title}" was created, but I couldn't post it to the channel. Make sure to invite me to the channel first with /invite @qvote.`;
+
+    // Try to send an ephemeral message to the user
+    try {
+      await postToSlackApi(
+        "https://slack.com/api/chat.postEphemeral",
+        {
+          channel: vote.channelId,
+          user: userId,
+          text: message,
+          blocks: createErrorMessageBlocks("Vote Created - Channel Issue", message),
+        },
+        {
+          Authorization: `Bearer ${workspaceToken}`,
+        },
+      );
+    } catch (ephemeralError) {
+      logger.error("Failed to send ephemeral message", ephemeralError);
+    }
+  }
+
+  return postResult;
+}
+
+// Parse the optional start time from the datetime picker
+function parseStartTime(
+  state: Record<string, Record<string, SlackViewStateValue>>,
+  now: Date,
+): { startTime: Date | null; errorField?: string; errorMessage?: string } {
+  const selectedDateTime = state.vote_start_time?.vote_start_time_input?.selected_date_time;
+
+  if (!selectedDateTime) {
+    return { startTime: null };
+  }
+
+  const startTime = new Date(selectedDateTime * 1000);
+  if (startTime <= now) {
+    return {
+      startTime: null,
+      errorField: "vote_start_time",
+      errorMessage: "Start time must be in the future",
+    };
+  }
+
+  return { startTime };
+}
+
+// Parse the optional end time from either the duration or the datetime picker.
+// Durations are counted from the start time.
+function parseEndTime(
+  state: Record<string, Record<string, SlackViewStateValue>>,
+  startTime: Date,
+): { endTime: Date | null; errorField?: string; errorMessage?: string } {
+  const durationText = state.vote_end_duration?.vote_end_duration_input?.value?.trim() || "";
+  const selectedDateTime = state.vote_end_time?.vote_end_time_input?.selected_date_time;
+
+  if (durationText && selectedDateTime) {
+    return {
+      endTime: null,
+      errorField: "vote_end_time",
+      errorMessage: "Choose either a duration or an end time, not both",
+    };
+  }
+
+  if (durationText) {
+    const durationMs = parseDuration(durationText);
+    if (durationMs === null) {
+      return {
+        endTime: null,
+        errorField: "vote_end_duration",
+        errorMessage: "Enter a duration like 30m, 2h, 3d or in 2 days",
+      };
+    }
+    return { endTime: new Date(startTime.getTime() + durationMs) };
+  }
+
+  if (selectedDateTime) {
+    const endTime = new Date(selectedDateTime * 1000);
+    if (endTime <= startTime) {
+      return {
+        endTime: null,
+        errorField: "vote_end_time",
+        errorMessage: "End time must be in the future and after the start time",
+      };
+    }
+    return { endTime };
+  }
+
+  return { endTime: null };
+}
 
 // Handle the vote creation submission
 export async function handleCreateVoteSubmission(
@@ -32,7 +373,7 @@ export async function handleCreateVoteSubmission(
     // Extract values from the form
     const title = state.vote_title.vote_title_input.value;
     const description = state.vote_description?.vote_description_input?.value || "";
-    const optionsText = state.vote_options.vote_options_input.value;
+    const optionsText = state.vote_options?.vote_options_input?.value || "";
 
     // Extract selected conversations from multi_conversations_select
     // (which should be user IDs for direct messages)
@@ -64,70 +405,126 @@ export async function handleCreateVoteSubmission(
 
     const creditsText = state.vote_credits?.vote_credits_input?.value || "100";
 
-    // Validate required fields
-    if (!title || !optionsText) {
+    // The voting mode, and whether voters can also vote against options
+    const mechanism = state.vote_mechanism?.vote_mechanism_input?.selected_option?.value ??
+      DEFAULT_MECHANISM;
+
+    // Whether channel members propose options before voting opens
+    const nominate = state.vote_nomination?.vote_nomination_input?.selected_options?.some((
+      option,
+    ) => option.value === "nominate") ?? false;
+
+    // Validate required fields. Voting modes with preset scales don't need options entered,
+    // and votes taking proposed options can start without any.
+    const missingOptions = !optionsText && !findMechanism(mechanism)?.scales && !nominate;
+    if (!title || missingOptions) {
       return {
         status: 200,
         body: {
           response_action: "errors",
           errors: {
             vote_title: !title ? "Title is required" : undefined,
-            vote_options: !optionsText ? "At least one option is required" : undefined,
+            vote_options: missingOptions ? "At least one option is required" : undefined,
           },
         },
       };
     }
 
-    // Parse options (split by lines)
-    const options = optionsText
+    const allowOpposition = state.vote_allow_opposition?.vote_allow_opposition_input
+      ?.selected_options?.some((option) => option.value === "allow") ?? false;
+
+    // Parse credits and the optional budget
+    const credits = parseInt(creditsText, 10);
+    const budgetText = state.vote_budget?.vote_budget_input?.value;
+    const budget = budgetText ? Number(budgetText) : null;
+
+    // Parse options (split by lines). Lines starting with "#" start a new question,
+    // otherwise options can have costs for participatory budgeting, or use the chosen
+    // scale for planning poker. The first question is also stored as the vote's options.
+    const optionLines = optionsText
       .split("\n")
       .filter((option) => option.trim().length > 0);
+    const questions = parseVoteQuestions(optionLines, credits);
+    const { options, optionCosts } = questions
+      ? { options: questions[0].options, optionCosts: null }
+      : parseVoteOptions(
+        optionLines,
+        mechanism,
+        state.vote_scale?.vote_scale_input?.selected_option?.value,
+      );
+    const creditsPerUser = questions ? questions[0].creditsPerUser : credits;
+
+    // Who can see how each person voted
+    const ballotVisibility = (state.vote_ballot_visibility?.vote_ballot_visibility_input
+      ?.selected_option?.value ?? "anonymous") as BallotVisibility;
 
-    if (options.length < 2) {
+    // Who can see the results while the vote is open
+    const resultsVisibility = (state.vote_results_visibility?.vote_results_visibility_input
+      ?.selected_option?.value ?? "creator") as ResultsVisibility;
+
+    // Validate options and settings
+    const fieldErrors = validateVoteFields({
+      title,
+      options,
+      credits,
+      mechanism,
+      allowOpposition,
+      budget,
+      optionCosts,
+      questions,
+      nominate,
+      ballotVisibility,
+      resultsVisibility,
+    });
+
+    if (fieldErrors) {
       return {
         status: 200,
         body: {
           response_action: "errors",
-          errors: {
-            vote_options: "At least two options are required",
-          },
+          errors: fieldErrors,
         },
       };
     }
 
-    // Parse credits
-    const credits = parseInt(creditsText, 10);
+    // Parse the optional start time
+    const now = new Date();
+    const startTimeResult = parseStartTime(state, now);
 
-    if (isNaN(credits) || credits <= 0) {
+    if (startTimeResult.errorMessage) {
       return {
         status: 200,
         body: {
           response_action: "errors",
           errors: {
-            vote_credits: "Credits must be a positive number",
+            [startTimeResult.errorField!]: startTimeResult.errorMessage,
           },
         },
       };
     }
 
-    // Validate that credits is a perfect square
-    const sqrt = Math.sqrt(credits);
-    const isSquare = Number.isInteger(sqrt);
+    const startTime = startTimeResult.startTime;
 
-    if (!isSquare) {
+    // Parse the optional end time
+    const endTimeResult = parseEndTime(state, startTime ?? now);
+
+    if (endTimeResult.errorMessage) {
       return {
         status: 200,
         body: {
           response_action: "errors",
           errors: {
-            vote_credits:
-              "Credits must be a perfect square (1, 4, 9, 16, 25, 36, 49, 64, 81, 100, etc.)",
+            [endTimeResult.errorField!]: endTimeResult.errorMessage,
           },
         },
       };
     }
 
-    // Remove duration field validation
+    const endTime = endTimeResult.endTime;
+
+    // Whether the results thread reply should also be sent to the channel
+    const broadcastResults = state.vote_broadcast_results?.vote_broadcast_results_input
+      ?.selected_options?.some((option) => option.value === "broadcast") ?? false;
 
     // Create the vote in the database
     logger.info("Creating vote", {
@@ -138,8 +535,18 @@ export async function handleCreateVoteSubmission(
       description,
       options,
       allowedVoters,
-      creditsPerUser: credits,
-      // endTime removed
+      creditsPerUser,
+      mechanism,
+      allowOpposition,
+      budget,
+      optionCosts,
+      questions,
+      isNominating: nominate,
+      startTime,
+      endTime,
+      broadcastResults,
+      ballotVisibility,
+      resultsVisibility,
     });
 
     const vote = await votesService.createVote({
@@ -150,20 +557,22 @@ export async function handleCreateVoteSubmission(
       description,
       options,
       allowedVoters,
-      creditsPerUser: credits,
-      // endTime removed
+      creditsPerUser,
+      mechanism,
+      allowOpposition,
+      budget,
+      optionCosts,
+      questions,
+      isNominating: nominate,
+      startTime,
+      endTime,
+      broadcastResults,
+      ballotVisibility,
+      resultsVisibility,
     });
 
     logger.info("Vote created successfully", { voteId: vote.id });
 
-    // Create the blocks for the vote message
-    const blocks = JSON.stringify(createVoteBlocks(vote, ""));
-
-    // Post the vote message to the channel
-    logger.info("Posting message to channel", {
-      channelId: metadata.channelId,
-    });
-
     // First try to join the channel
     try {
       const joinResponse = await postToSlackApi(
@@ -184,47 +593,7 @@ export async function handleCreateVoteSubmission(
     }
 
     // Now post the message
-    const postResponse = await postToSlackApi(
-      "https://slack.com/api/chat.postMessage",
-      {
-        channel: metadata.channelId,
-        blocks: blocks,
-        text: `New vote: ${title}`, // Fallback text if blocks don't render
-      },
-      {
-        Authorization: `Bearer ${workspaceToken}`,
-      },
-    );
-
-    const postResult = await postResponse.json();
-    logger.debug("Post message result", postResult);
-
-    // If we couldn't post to the channel, send an ephemeral message to the user
-    if (!postResult.ok) {
-      logger.warn(`Failed to post message`, { error: postResult.error });
-
-      // Try to send an ephemeral message to the user
-      try {
-        await postToSlackApi(
-          "https://slack.com/api/chat.postEphemeral",
-          {
-            channel: metadata.channelId,
-            user: payload.user.id,
-            text:
-              `Your vote "${title}" was created, but I couldn't post it to the channel. Make sure to invite me to the channel first with /invite @qvote.`,
-            blocks: createErrorMessageBlocks(
-              "Vote Created - Channel Issue",
-              `Your vote "${title}" was created, but I couldn't post it to the channel. Make sure to invite me to the channel first with /invite @qvote.`,
-            ),
-          },
-          {
-            Authorization: `Bearer ${workspaceToken}`,
-          },
-        );
-      } catch (ephemeralError) {
-        logger.error("Failed to send ephemeral message", ephemeralError);
-      }
-    }
+    const postResult = await postVoteToChannel(vote, workspaceToken, payload.user.id);
 
     // For view_submission, we need to provide a proper response
     return {
@@ -258,6 +627,7 @@ export async function openVoteCreationModal(
   workspaceId: string,
   channelId: string,
   userId: string,
+  values: VoteCreationModalValues = {},
 ): Promise<InteractionResponse> {
   try {
     // Get workspace token
@@ -266,7 +636,7 @@ export async function openVoteCreationModal(
     );
 
     // Create the modal view using the template
-    const view = createVoteCreationModalView(channelId, userId);
+    const view = createVoteCreationModalView(channelId, userId, values);
 
     // Open the modal with Slack API
     const response = await postToSlackApi(
@@ -139,6 +139,15 @@ describe(
         optionsText?: string;
         creditsText?: string;
         allowedVoters?: string[];
+        startDateTime?: number;
+        endDurationText?: string;
+        endDateTime?: number;
+        mechanism?: string;
+        allowOpposition?: boolean;
+        budgetText?: string;
+        scale?: string;
+        nominate?: boolean;
+        broadcastResults?: boolean;
       }): SlackInteraction => {
         const {
           title = "Test Vote",
@@ -146,6 +155,15 @@ describe(
           optionsText = "Option 1\nOption 2\nOption 3",
           creditsText = "100",
           allowedVoters = [],
+          startDateTime,
+          endDurationText = "",
+          endDateTime,
+          mechanism = "quadratic",
+          allowOpposition = false,
+          budgetText = "",
+          scale,
+          nominate = false,
+          broadcastResults = false,
         } = options;
 
         return {
@@ -185,6 +203,30 @@ describe(
                     value: creditsText,
                   },
                 },
+                vote_budget: {
+                  vote_budget_input: {
+                    type: "plain_text_input",
+                    value: budgetText,
+                  },
+                },
+                vote_scale: {
+                  vote_scale_input: {
+                    type: "static_select",
+                    selected_option: scale ? { value: scale } : null,
+                  },
+                },
+                vote_mechanism: {
+                  vote_mechanism_input: {
+                    type: "static_select",
+                    selected_option: { value: mechanism },
+                  },
+                },
+                vote_allow_opposition: {
+                  vote_allow_opposition_input: {
+                    type: "checkboxes",
+                    selected_options: allowOpposition ? [{ value: "allow" }] : [],
+                  },
+                },
                 vote_allowed_voters: allowedVoters.length > 0
                   ? {
                     vote_allowed_voters_input: {
@@ -193,6 +235,36 @@ describe(
                     },
                   }
                   : undefined,
+                vote_start_time: {
+                  vote_start_time_input: {
+                    type: "datetimepicker",
+                    selected_date_time: startDateTime,
+                  },
+                },
+                vote_end_duration: {
+                  vote_end_duration_input: {
+                    type: "plain_text_input",
+                    value: endDurationText,
+                  },
+                },
+                vote_end_time: {
+                  vote_end_time_input: {
+                    type: "datetimepicker",
+                    selected_date_time: endDateTime,
+                  },
+                },
+                vote_nomination: {
+                  vote_nomination_input: {
+                    type: "checkboxes",
+                    selected_options: nominate ? [{ value: "nominate" }] : [],
+                  },
+                },
+                vote_broadcast_results: {
+                  vote_broadcast_results_input: {
+                    type: "checkboxes",
+                    selected_options: broadcastResults ? [{ value: "broadcast" }] : [],
+                  },
+                },
               },
             },
           },
@@ -412,6 +484,483 @@ describe(
         }
       });
 
+      it("validates the end time fields", async () => {
+        const nowSeconds = Math.floor(Date.now() / 1000);
+
+        // Test with an unparseable duration
+        const responseBadDuration = await handleCreateVoteSubmission(
+          createMockSubmission({ endDurationText: "next tuesday" }),
+          workspaceId,
+        );
+
+        assertEquals(responseBadDuration.body.response_action, "errors");
+        assertStringIncludes(
+          JSON.stringify(responseBadDuration.body.errors),
+          "Enter a duration like",
+        );
+
+        // Test with both a duration and a specific end time
+        const responseBoth = await handleCreateVoteSubmission(
+          createMockSubmission({
+            endDurationText: "2h",
+            endDateTime: nowSeconds + 3600,
+          }),
+          workspaceId,
+        );
+
+        assertEquals(responseBoth.body.response_action, "errors");
+        assertStringIncludes(
+          JSON.stringify(responseBoth.body.errors),
+          "Choose either a duration or an end time",
+        );
+
+        // Test with an end time in the past
+        const responsePast = await handleCreateVoteSubmission(
+          createMockSubmission({ endDateTime: nowSeconds - 3600 }),
+          workspaceId,
+        );
+
+        assertEquals(responsePast.body.response_action, "errors");
+        assertStringIncludes(
+          JSON.stringify(responsePast.body.errors),
+          "End time must be in the future",
+        );
+      });
+
+      it("persists the end time from a duration or a specific time", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          const before = Date.now();
+
+          await handleCreateVoteSubmission(
+            createMockSubmission({
+              title: "Vote With Duration",
+              endDurationText: "in 2 days",
+            }),
+            workspaceId,
+          );
+
+          const endDateTime = Math.floor(Date.now() / 1000) + 3 * 60 * 60;
+          await handleCreateVoteSubmission(
+            createMockSubmission({
+              title: "Vote With End Time",
+              endDateTime,
+            }),
+            workspaceId,
+          );
+
+          const durationVote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Vote With Duration" },
+          });
+          const durationMs = durationVote.endTime!.getTime() - before;
+          assertEquals(
+            Math.abs(durationMs - 2 * 24 * 60 * 60 * 1000) < 60 * 1000,
+            true,
+          );
+
+          const endTimeVote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Vote With End Time" },
+          });
+          assertEquals(endTimeVote.endTime?.getTime(), endDateTime * 1000);
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("validates the start time field", async () => {
+        const nowSeconds = Math.floor(Date.now() / 1000);
+
+        const responsePast = await handleCreateVoteSubmission(
+          createMockSubmission({ startDateTime: nowSeconds - 3600 }),
+          workspaceId,
+        );
+
+        assertEquals(responsePast.body.response_action, "errors");
+        assertStringIncludes(
+          JSON.stringify(responsePast.body.errors),
+          "Start time must be in the future",
+        );
+
+        // The end time must come after the start time
+        const responseEndBeforeStart = await handleCreateVoteSubmission(
+          createMockSubmission({
+            startDateTime: nowSeconds + 2 * 3600,
+            endDateTime: nowSeconds + 3600,
+          }),
+          workspaceId,
+        );
+
+        assertEquals(responseEndBeforeStart.body.response_action, "errors");
+        assertStringIncludes(
+          JSON.stringify(responseEndBeforeStart.body.errors),
+          "after the start time",
+        );
+      });
+
+      it("creates a scheduled vote with a future start time", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          const startDateTime = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+
+          await handleCreateVoteSubmission(
+            createMockSubmission({
+              title: "Scheduled Vote",
+              startDateTime,
+              endDurationText: "2h",
+            }),
+            workspaceId,
+          );
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Scheduled Vote" },
+          });
+          assertEquals(vote.isStarted, false);
+          assertEquals(vote.startTime.getTime(), startDateTime * 1000);
+
+          // The duration is counted from when the vote opens
+          assertEquals(
+            vote.endTime?.getTime(),
+            (startDateTime + 2 * 60 * 60) * 1000,
+          );
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("creates votes with the chosen voting mode", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          // Dot voting doesn't need a perfect square
+          await handleCreateVoteSubmission(
+            createMockSubmission({ title: "Dot Vote", mechanism: "dot", creditsText: "5" }),
+            workspaceId,
+          );
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Dot Vote" },
+          });
+          assertEquals(vote.mechanism, "dot");
+          assertEquals(vote.creditsPerUser, 5);
+
+          // Only quadratic votes can allow votes against options
+          const response = await handleCreateVoteSubmission(
+            createMockSubmission({ mechanism: "approval", allowOpposition: true }),
+            workspaceId,
+          );
+          assertEquals(response.body.response_action, "errors");
+          assertStringIncludes(
+            JSON.stringify(response.body.errors),
+            "only available in quadratic voting",
+          );
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("stores the budget and option costs for participatory budgeting", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          await handleCreateVoteSubmission(
+            createMockSubmission({
+              title: "Budget Vote",
+              optionsText: "Refactor auth | 30\nDark mode|20",
+              mechanism: "budget",
+              budgetText: "40",
+            }),
+            workspaceId,
+          );
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Budget Vote" },
+          });
+          assertEquals(vote.options, ["Refactor auth", "Dark mode"]);
+          assertEquals(vote.optionCosts, [30, 20]);
+          assertEquals(vote.budget, 40);
+
+          // Every option needs a cost, and the vote needs a budget
+          const missingCost = await handleCreateVoteSubmission(
+            createMockSubmission({
+              optionsText: "Refactor auth | 30\nDark mode",
+              mechanism: "budget",
+              budgetText: "40",
+            }),
+            workspaceId,
+          );
+          assertStringIncludes(
+            JSON.stringify(missingCost.body.errors),
+            "Enter a cost for each option",
+          );
+
+          const missingBudget = await handleCreateVoteSubmission(
+            createMockSubmission({ optionsText: "Refactor auth | 30", mechanism: "budget" }),
+            workspaceId,
+          );
+          assertStringIncludes(JSON.stringify(missingBudget.body.errors), "vote_budget");
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("uses the chosen estimation scale for planning poker", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          await handleCreateVoteSubmission(
+            createMockSubmission({
+              title: "Login page",
+              optionsText: "",
+              mechanism: "poker",
+              scale: "tshirt",
+            }),
+            workspaceId,
+          );
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Login page" },
+          });
+          assertEquals(vote.mechanism, "poker");
+          assertEquals(vote.options, ["XS", "S", "M", "L", "XL"]);
+          assertEquals(vote.round, 1);
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("stores each question with its own options and credits", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          await handleCreateVoteSubmission(
+            createMockSubmission({
+              title: "Offsite",
+              optionsText: "# Where?\nLisbon\nBerlin\n# When? | 25\nMay\nJune\nJuly",
+            }),
+            workspaceId,
+          );
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Offsite" },
+          });
+          assertEquals(vote.options, ["Lisbon", "Berlin"]);
+          assertEquals(vote.creditsPerUser, 100);
+          assertEquals(vote.questions, [
+            { title: "Where?", options: ["Lisbon", "Berlin"], creditsPerUser: 100 },
+            { title: "When?", options: ["May", "June", "July"], creditsPerUser: 25 },
+          ]);
+
+          // Every question needs two options and valid credits
+          const oneOption = await handleCreateVoteSubmission(
+            createMockSubmission({ optionsText: "# Where?\nLisbon\nBerlin\n# When?\nMay" }),
+            workspaceId,
+          );
+          assertEquals(oneOption.body.errors, {
+            vote_options: "When?: At least two options are required",
+          });
+
+          const invalidCredits = await handleCreateVoteSubmission(
+            createMockSubmission({
+              optionsText: "# Where?\nLisbon\nBerlin\n# When? | 20\nMay\nJune",
+            }),
+            workspaceId,
+          );
+          assertStringIncludes(JSON.stringify(invalidCredits.body.errors), "When?: ");
+
+          // Options need a question when the vote has questions
+          const noQuestion = await handleCreateVoteSubmission(
+            createMockSubmission({ optionsText: "Lisbon\nBerlin\n# When?\nMay\nJune" }),
+            workspaceId,
+          );
+          assertStringIncludes(JSON.stringify(noQuestion.body.errors), "Start each question");
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("creates votes that take proposed options", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          // The options can be left empty, channel members propose them
+          const response = await handleCreateVoteSubmission(
+            createMockSubmission({ title: "Team lunch", optionsText: "", nominate: true }),
+            workspaceId,
+          );
+          assertEquals(response.body.response_action, "update");
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Team lunch" },
+          });
+          assertEquals(vote.isNominating, true);
+
+          const budget = await handleCreateVoteSubmission(
+            createMockSubmission({ mechanism: "budget", budgetText: "40", nominate: true }),
+            workspaceId,
+          );
+          assertEquals(budget.body.errors, {
+            vote_nomination: "Participatory budgeting doesn't support proposed options",
+          });
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("stores whether voters can vote against options", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          await handleCreateVoteSubmission(
+            createMockSubmission({ title: "Opposition Vote", allowOpposition: true }),
+            workspaceId,
+          );
+
+          const vote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Opposition Vote" },
+          });
+          assertEquals(vote.allowOpposition, true);
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
+      it("stores whether the results are sent to the channel", async () => {
+        // Mock the Slack API calls
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (
+          _url: string | URL | Request,
+          _init?: RequestInit,
+        ) => {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+          } as Response);
+        };
+
+        try {
+          await handleCreateVoteSubmission(
+            createMockSubmission({ title: "Broadcast Vote", broadcastResults: true }),
+            workspaceId,
+          );
+          await handleCreateVoteSubmission(
+            createMockSubmission({ title: "Thread Only Vote" }),
+            workspaceId,
+          );
+
+          const broadcastVote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Broadcast Vote" },
+          });
+          assertEquals(broadcastVote.broadcastResults, true);
+
+          const threadOnlyVote = await prisma.vote.findFirstOrThrow({
+            where: { workspaceId, title: "Thread Only Vote" },
+          });
+          assertEquals(threadOnlyVote.broadcastResults, false);
+        } finally {
+          // Restore original fetch
+          globalThis.fetch = originalFetch;
+        }
+      });
+
       it("successfully creates a vote", async () => {
         // Mock the Slack API calls
         const originalFetch = globalThis.fetch;
@@ -429,7 +978,8 @@ describe(
             return Promise.resolve({
               ok: true,
               status: 200,
-              json: () => Promise.resolve({ ok: true, ts: "1234567890.123456" }),
+              json: () =>
+                Promise.resolve({ ok: true, channel: mockChannelId, ts: "1234567890.123456" }),
             } as Response);
           }
 
@@ -472,6 +1022,10 @@ describe(
           assertEquals((votes[0].options as string[]).length, 3);
           assertEquals(votes[0].creditsPerUser, 36);
 
+          // Check the posted message was stored
+          assertEquals(votes[0].messageChannel, mockChannelId);
+          assertEquals(votes[0].messageTs, "1234567890.123456");
+
           // Check the allowed voters
           const allowedVoters = votes[0].allowedVoters as string[];
           assertEquals(allowedVoters.length, 3); // user1, user2, and the creator (mockUserId)
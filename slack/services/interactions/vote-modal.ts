@@ -1,10 +1,14 @@
 import { InteractionResponse, SlackInteraction } from "./types.ts";
 import { createVotingModalView } from "./templates.ts";
+import { createQuestionBallots } from "./ballot-questions.ts";
 
 import logger from "@utils/logger.ts";
 import { votesService, workspaceService } from "@db/prisma.ts";
+import { getVoteQuestions } from "@db/votes.ts";
 import {
   createErrorResponse,
+  createNotYetOpenMessage,
+  hasVoteStarted,
   sendResponseUrlMessage,
 } from "@slack/services/interactions/vote-utils.ts";
 import { NotFoundError, UnauthorizedError } from "@db/errors.ts";
@@ -53,6 +57,20 @@ export async function handleOpenVoteModal(
       );
     }
 
+    // Check if the vote has opened yet
+    if (!hasVoteStarted(vote)) {
+      const notOpenMessage = createNotYetOpenMessage(vote);
+
+      // Button clicks ignore the response body, so use the response_url when we have it
+      if (payload.response_url) {
+        await sendResponseUrlMessage(payload.response_url, notOpenMessage, {
+          title: "Vote Not Open Yet",
+        });
+      }
+
+      return createErrorResponse(notOpenMessage, "Vote Not Open Yet");
+    }
+
     // Check if the user is allowed to vote
     try {
       validateUserAllowed(vote, payload.user.id);
@@ -96,21 +114,40 @@ export async function handleOpenVoteModal(
     const userResponses = vote.responses.filter(
       (response: { userId: string }) => response.userId === payload.user.id,
     );
-    const userCredits = userResponses.reduce(
-      (sum: number, response: { credits: number }) => sum + response.credits,
-      0,
-    );
+    // Votes against are stored as negative credits but cost the same
+    const sumCredits = (responses: { credits: number }[]) =>
+      responses.reduce((sum, response) => sum + Math.abs(response.credits), 0);
 
     // Cast the options to string[] as it comes from the database as Json
-    const view = createVotingModalView({
+    const ballot = {
       id: vote.id,
       title: vote.title,
       description: vote.description,
       creditsPerUser: vote.creditsPerUser,
-      creditsUsed: userCredits,
+      creditsUsed: sumCredits(userResponses),
       options: vote.options as string[],
       previousVotes: userResponses,
-    });
+      mechanism: vote.mechanism,
+      allowOpposition: vote.allowOpposition,
+      optionCosts: vote.optionCosts as number[] | null,
+      ballotVisibility: vote.ballotVisibility,
+    };
+
+    // Each question of a multi-question vote has its own credits
+    const questions = getVoteQuestions(vote);
+    const view = createVotingModalView(
+      questions.length > 1
+        ? {
+          ...ballot,
+          questions: createQuestionBallots(ballot, questions, (question, questionIndex) => {
+            const responses = userResponses.filter((response) =>
+              response.questionIndex === questionIndex
+            );
+            return { ...question, creditsUsed: sumCredits(responses), previousVotes: responses };
+          }),
+        }
+        : ballot,
+    );
 
     // For debugging
     logger.debug("Modal payload", {
@@ -160,6 +160,29 @@ describe(
       assertStringIncludes(response.body.text || "", "This vote has ended");
     });
 
+    it("returns error when vote has not opened yet", async () => {
+      const scheduledVote = await votesService.createVote({
+        workspaceId: workspaceId,
+        channelId: mockChannelId,
+        creatorId: mockUserId,
+        title: "Scheduled Vote",
+        options: ["Option 1", "Option 2"],
+        startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      });
+
+      const action = createMockAction(`vote_${scheduledVote.id}`);
+      const mockPayload = createMockPayload(mockUserId);
+
+      const response = await handleOpenVoteModal(
+        action,
+        mockPayload,
+        workspaceId,
+      );
+
+      assertEquals(response.status, 200);
+      assertStringIncludes(response.body.text || "", "This vote opens <!date^");
+    });
+
     it("returns error when user is not authorized to vote", async () => {
       // Create a new vote with restricted voters
       const unauthorizedUserId = "unauthorized-user-789";
@@ -0,0 +1,137 @@
+import logger from "@utils/logger.ts";
+import { createInfoMessageBlocks, formatSlackDate } from "../blocks.ts";
+import { getNonVoters } from "./vote-utils.ts";
+import { votesService } from "@db/prisma.ts";
+import { postToSlackApi, slackApiRequest } from "@utils/http-client.ts";
+
+// Key recorded for reminders sent with the "Remind non-voters" button
+export const MANUAL_REMINDER_KEY = "manual";
+
+/**
+ * Gets a permalink to the vote message, if the message is known
+ */
+export async function getVoteMessageLink(
+  vote: { id: string; messageChannel: string | null; messageTs: string | null },
+  workspaceToken: string,
+): Promise<string | null> {
+  if (!vote.messageChannel || !vote.messageTs) {
+    return null;
+  }
+
+  try {
+    const response = await slackApiRequest(
+      `https://slack.com/api/chat.getPermalink?channel=${vote.messageChannel}&message_ts=${vote.messageTs}`,
+      {
+        headers: {
+          Authorization: `Bearer ${workspaceToken}`,
+        },
+      },
+    );
+
+    const result = await response.json();
+    if (!result.ok) {
+      logger.warn("Failed to get vote message permalink", {
+        error: result.error,
+        voteId: vote.id,
+      });
+      return null;
+    }
+
+    return result.permalink;
+  } catch (error) {
+    logger.error("Error getting vote message permalink", error);
+    return null;
+  }
+}
+
+/**
+ * Sends a reminder DM to each allowed voter who hasn't voted yet.
+ * Each user gets a given reminder at most once.
+ * @param key Identifies the reminder, e.g. "manual" or "auto_60m"
+ * @returns The number of reminders sent
+ */
+export async function sendVoteReminders(
+  vote: {
+    id: string;
+    channelId: string;
+    title: string;
+    endTime: Date | null;
+    allowedVoters: unknown;
+    messageChannel: string | null;
+    messageTs: string | null;
+    responses: { userId: string; credits: number }[];
+  },
+  key: string,
+  workspaceToken: string,
+): Promise<number> {
+  const allowedVoters = vote.allowedVoters as string[] | null;
+  if (!allowedVoters || allowedVoters.length === 0) {
+    return 0;
+  }
+
+  // Skip anyone who already got this reminder
+  const remindedUserIds = new Set(await votesService.getRemindedUserIds(vote.id, key));
+  const usersToRemind = getNonVoters(vote, allowedVoters).filter(
+    (userId) => !remindedUserIds.has(userId),
+  );
+
+  if (usersToRemind.length === 0) {
+    return 0;
+  }
+
+  const link = await getVoteMessageLink(vote, workspaceToken);
+  const message = `You haven't voted on *${vote.title}* yet.${
+    vote.endTime ? ` Voting closes ${formatSlackDate(vote.endTime)}.` : ""
+  }\n${link ? `<${link}|Open the vote>` : `You can find it in <#${vote.channelId}>.`}`;
+
+  let sentCount = 0;
+
+  for (const userId of usersToRemind) {
+    let claimed = false;
+
+    try {
+      // Another instance may have sent this reminder since we checked
+      claimed = await votesService.claimReminder(vote.id, userId, key);
+      if (!claimed) {
+        continue;
+      }
+
+      // Posting to a user ID sends a DM from the app
+      const response = await postToSlackApi(
+        "https://slack.com/api/chat.postMessage",
+        {
+          channel: userId,
+          text: `Reminder: you haven't voted on "${vote.title}" yet`,
+          blocks: createInfoMessageBlocks("Vote Reminder", message),
+        },
+        {
+          Authorization: `Bearer ${workspaceToken}`,
+        },
+      );
+
+      const result = await response.json();
+      if (!result.ok) {
+        logger.warn("Failed to send vote reminder", {
+          error: result.error,
+          voteId: vote.id,
+          userId,
+        });
+        // Let the next run try this reminder again
+        await votesService.releaseReminder(vote.id, userId, key);
+        continue;
+      }
+
+      sentCount++;
+    } catch (error) {
+      logger.error(`Error sending vote reminder to ${userId}`, error);
+      // Let the next run try this reminder again
+      if (claimed) {
+        await votesService.releaseReminder(vote.id, userId, key);
+      }
+    }
+  }
+
+  logger.info("Sent vote reminders", { voteId: vote.id, key, sentCount });
+
+  return sentCount;
+}
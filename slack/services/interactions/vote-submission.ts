@@ -2,10 +2,23 @@ import { InteractionResponse, SlackInteraction } from "./types.ts";
 import logger from "@utils/logger.ts";
 import { checkAndAutoEndVote } from "./vote-auto-end.ts";
 import { votesService } from "@db/prisma.ts";
+import { getVoteQuestions } from "@db/votes.ts";
+import {
+  getBallotErrorBlockId,
+  getQuestionState,
+  scopeQuestionErrors,
+} from "./ballot-questions.ts";
+import { createVoteErrorModalView } from "./templates.ts";
 // @ts-types="generated/index.d.ts"
 import { Vote } from "generated/index.js";
-import { createErrorResponse } from "@slack/services/interactions/vote-utils.ts";
+import {
+  createErrorResponse,
+  createNotYetOpenMessage,
+  hasVoteStarted,
+  scheduleVoteMessageUpdate,
+} from "@slack/services/interactions/vote-utils.ts";
 import { NotFoundError, UnauthorizedError, ValidationError, VoteError } from "@db/errors.ts";
+import { type BallotEntry, getMechanism } from "@mechanisms/index.ts";
 
 // Validation functions
 const validateMetadata = (metadata: Record<string, unknown>): string => {
@@ -48,83 +61,79 @@ const validateVoteNotEnded = (vote: Vote) => {
   }
 };
 
-const validateCredits = (
-  state: Record<string, Record<string, { value?: string }>>,
-  options: string[],
-  creditsPerUser: number,
-): { totalCredits: number; errorField?: string; errorMessage?: string } => {
-  let totalCredits = 0;
-  for (let i = 0; i < options.length; i++) {
-    const blockId = `option_${i}`;
-    const actionId = `credits_${i}`;
-    if (state[blockId] && state[blockId][actionId]) {
-      const credits = parseInt(state[blockId][actionId].value || "0", 10) || 0;
-      const sqrt = Math.sqrt(credits);
-      if (credits > 0 && !Number.isInteger(sqrt)) {
-        return {
-          totalCredits,
-          errorField: blockId,
-          errorMessage:
-            "Please use only perfect square numbers (1, 4, 9, 16, 25, 36, 49, 64, 81, 100, etc.)",
-        };
-      }
-      totalCredits += credits;
-    }
+const validateVoteStarted = (vote: Vote) => {
+  if (!hasVoteStarted(vote)) {
+    throw new ValidationError(createNotYetOpenMessage(vote));
   }
-  if (totalCredits > creditsPerUser) {
-    return {
-      totalCredits,
-      errorField: "option_0", // Show on first field but could be a global error
-      errorMessage:
-        `You've used ${totalCredits} credits, which exceeds the limit of ${creditsPerUser} credits.`,
-    };
-  }
-  return { totalCredits };
 };
 
 // Main handler function
 export async function handleVoteSubmission(
   payload: SlackInteraction,
 ): Promise<InteractionResponse> {
+  // Each voting mode has its own ballot blocks, so errors are shown on one of the vote's
+  // blocks once the vote is known
+  let errorBlockId: string | undefined;
+
   try {
     const metadata = JSON.parse(String(payload.view?.private_metadata || "{}"));
     const voteId = validateMetadata(metadata);
     const vote = await validateVoteExists(voteId);
     const userId = payload.user.id;
+    const mechanism = getMechanism(vote.mechanism);
+    const questions = getVoteQuestions(vote);
+    errorBlockId = getBallotErrorBlockId(mechanism, questions.length);
 
     validateUserAllowed(vote, userId);
     validateVoteNotEnded(vote);
+    validateVoteStarted(vote);
 
+    // The vote's mechanism reads and validates the ballot of each question.
+    // Multi-question ballots keep each question's blocks apart with a prefix.
     const state = payload.view!.state.values;
-    const options = vote.options as string[];
-    const validationResult = validateCredits(state, options, vote.creditsPerUser);
+    const entries: (BallotEntry & { questionIndex: number })[] = [];
+
+    for (const [questionIndex, question] of questions.entries()) {
+      const ballot = mechanism.parseBallot(
+        {
+          options: question.options,
+          creditsPerUser: question.creditsPerUser,
+          allowOpposition: vote.allowOpposition,
+        },
+        questions.length > 1 ? getQuestionState(state, questionIndex) : state,
+      );
 
-    if (validationResult.errorMessage) {
-      return {
-        status: 200,
-        body: {
-          response_action: "errors",
-          errors: {
-            [validationResult.errorField!]: validationResult.errorMessage,
+      if (ballot.errors) {
+        return {
+          status: 200,
+          body: {
+            response_action: "errors",
+            errors: questions.length > 1
+              ? scopeQuestionErrors(ballot.errors, questionIndex)
+              : ballot.errors,
           },
-        },
-      };
+        };
+      }
+
+      entries.push(...ballot.entries.map((entry) => ({ ...entry, questionIndex })));
     }
 
     // Record votes
-    for (let i = 0; i < options.length; i++) {
-      const blockId = `option_${i}`;
-      const actionId = `credits_${i}`;
-      if (state[blockId] && state[blockId][actionId]) {
-        const credits = parseInt(state[blockId][actionId].value || "0", 10) || 0;
-        if (credits >= 0) {
-          await votesService.recordVoteResponse(vote.id, userId, i, credits);
-        }
-      }
+    for (const entry of entries) {
+      await votesService.recordVoteResponse(
+        vote.id,
+        userId,
+        entry.optionIndex,
+        entry.credits,
+        entry.questionIndex,
+      );
     }
 
     await checkAndAutoEndVote(vote.id, userId);
 
+    // Refresh the participation count on the vote message
+    scheduleVoteMessageUpdate(vote);
+
     return {
       status: 200,
       body: {
@@ -134,38 +143,36 @@ export async function handleVoteSubmission(
   } catch (error) {
     logger.error("Error processing vote submission", error);
 
-    if (error instanceof VoteError) {
-      // Different response format for NotFoundError vs other errors
-      if (error instanceof NotFoundError) {
-        return createErrorResponse(error.message, "Not Found");
-      } else {
-        // For other errors, show on a field that makes sense
-        const fieldToShowError =
-          // If we can extract the field from the error message, use that
-          error.message.includes("option_") && error.message.match(/option_\d+/)
-            ? error.message.match(/option_\d+/)![0]
-            : "option_0"; // Default to first option
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error.message, "Not Found");
+    }
 
-        const errorMessage = error.message.replace(/option_\d+:\s*/, "");
+    const errorMessage = error instanceof VoteError
+      ? error.message.replace(/option_\d+:\s*/, "")
+      : "Error processing your vote. Please try again.";
 
-        return {
-          status: 200,
-          body: {
-            response_action: error.responseAction,
-            errors: {
-              [fieldToShowError]: errorMessage,
-            },
-          },
-        };
-      }
+    // Without the vote there's no ballot block to show the error on, so replace the modal
+    if (!errorBlockId) {
+      return {
+        status: 200,
+        body: {
+          response_action: "update",
+          view: createVoteErrorModalView(errorMessage),
+        },
+      };
     }
 
+    // Show the error on the field the message names, if any, else on the ballot
+    const fieldToShowError = error instanceof VoteError && /option_\d+/.test(error.message)
+      ? error.message.match(/option_\d+/)![0]
+      : errorBlockId;
+
     return {
       status: 200,
       body: {
         response_action: "errors",
         errors: {
-          option_0: "Error processing your vote. Please try again.",
+          [fieldToShowError]: errorMessage,
         },
       },
     };
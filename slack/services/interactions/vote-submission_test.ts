@@ -1,4 +1,4 @@
-import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert";
 import { afterAll, beforeAll, describe, it } from "jsr:@std/testing/bdd";
 import { handleVoteSubmission } from "./vote-submission.ts";
 import type { SlackInteraction } from "./types.ts";
@@ -83,9 +83,9 @@ describe(
         voteId,
         userId = mockUserId,
         stateValues = {
-          option_0: { credits_0: { value: "4" } },
-          option_1: { credits_1: { value: "9" } },
-          option_2: { credits_2: { value: "0" } },
+          option_0: { votes_0: { value: "2" } },
+          option_1: { votes_1: { value: "3" } },
+          option_2: { votes_2: { value: "0" } },
         },
       } = options;
 
@@ -190,10 +190,120 @@ describe(
       });
     });
 
-    it("returns error when credits are not perfect squares", async () => {
+    it("returns error when vote has not opened yet", async () => {
+      // Create a vote that opens tomorrow
+      const scheduledVote = await votesService.createVote({
+        workspaceId: workspaceId,
+        channelId: mockChannelId,
+        creatorId: mockUserId,
+        title: "Scheduled Vote",
+        description: "This vote opens later",
+        options: ["Option X", "Option Y"],
+        creditsPerUser: 100,
+        startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      });
+
+      const payload = createMockSubmission({ voteId: scheduledVote.id });
+      const response = await handleVoteSubmission(payload);
+
+      assertEquals(response.status, 200);
+      assertEquals(response.body.response_action, "errors");
+      assertStringIncludes(
+        JSON.stringify(response.body.errors),
+        "This vote opens",
+      );
+
+      // Clean up the scheduled vote
+      await prisma.vote.delete({
+        where: {
+          id: scheduledVote.id,
+        },
+      });
+    });
+
+    it("shows ended and not yet open errors on the ballot of every voting mode", async () => {
+      // The first input block of each mode's ballot, as none but quadratic has option_0
+      const ballotBlocks: Record<string, string> = {
+        approval: "approvals_0",
+        dot: "option_0",
+        irv: "choice_0",
+        schulze: "choice_0",
+        budget: "option_0",
+        poker: "estimate",
+        judgment: "grade_0",
+        score: "grade_0",
+      };
+
+      for (const [mechanism, blockId] of Object.entries(ballotBlocks)) {
+        const endedVote = await votesService.createVote({
+          workspaceId: workspaceId,
+          channelId: mockChannelId,
+          creatorId: mockUserId,
+          title: "Ended Vote",
+          options: ["1", "2"],
+          mechanism,
+        });
+        await votesService.endVote(endedVote.id);
+        const scheduledVote = await votesService.createVote({
+          workspaceId: workspaceId,
+          channelId: mockChannelId,
+          creatorId: mockUserId,
+          title: "Scheduled Vote",
+          options: ["1", "2"],
+          mechanism,
+          startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        });
+
+        try {
+          const ended = await handleVoteSubmission(createMockSubmission({ voteId: endedVote.id }));
+          assertEquals(ended.body.response_action, "errors");
+          assertEquals(Object.keys(ended.body.errors ?? {}), [blockId], mechanism);
+          assertStringIncludes(JSON.stringify(ended.body.errors), "This vote has ended");
+
+          const scheduled = await handleVoteSubmission(
+            createMockSubmission({ voteId: scheduledVote.id }),
+          );
+          assertEquals(scheduled.body.response_action, "errors");
+          assertEquals(Object.keys(scheduled.body.errors ?? {}), [blockId], mechanism);
+          assertStringIncludes(JSON.stringify(scheduled.body.errors), "This vote opens");
+        } finally {
+          await prisma.vote.deleteMany({
+            where: { id: { in: [endedVote.id, scheduledVote.id] } },
+          });
+        }
+      }
+    });
+
+    it("shows errors about a multi-question ballot on its first question", async () => {
+      const questionsVote = await votesService.createVote({
+        workspaceId: workspaceId,
+        channelId: mockChannelId,
+        creatorId: mockUserId,
+        title: "Estimates",
+        options: ["1", "2"],
+        mechanism: "poker",
+        questions: [
+          { title: "Login", options: ["1", "2"], creditsPerUser: 1 },
+          { title: "Signup", options: ["1", "2"], creditsPerUser: 1 },
+        ],
+      });
+      await votesService.endVote(questionsVote.id);
+
+      try {
+        const response = await handleVoteSubmission(
+          createMockSubmission({ voteId: questionsVote.id }),
+        );
+        assertEquals(response.body.response_action, "errors");
+        assertEquals(Object.keys(response.body.errors ?? {}), ["q0_estimate"]);
+      } finally {
+        await prisma.vote.delete({ where: { id: questionsVote.id } });
+      }
+    });
+
+    it("returns error when votes are not whole numbers", async () => {
       const stateValues = {
-        option_0: { credits_0: { value: "5" } }, // Not a perfect square
-        option_1: { credits_1: { value: "9" } }, // Is a perfect square
+        option_0: { votes_0: { value: "1.5" } }, // Not a whole number
+        option_1: { votes_1: { value: "3" } },
       };
 
       const payload = createMockSubmission({ stateValues, voteId: createdVoteId });
@@ -203,16 +313,16 @@ describe(
       assertEquals(response.body.response_action, "errors");
       assertStringIncludes(
         JSON.stringify(response.body.errors),
-        "perfect square numbers",
+        "whole number of votes",
       );
     });
 
-    it("shows error on the correct field for non-perfect square values", async () => {
+    it("shows error on the correct field for invalid vote values", async () => {
       // 1. Test error on first field
       const stateValuesFirstField = {
-        option_0: { credits_0: { value: "5" } }, // Not a perfect square - first field
-        option_1: { credits_1: { value: "9" } }, // Is a perfect square
-        option_2: { credits_2: { value: "4" } }, // Is a perfect square
+        option_0: { votes_0: { value: "-1" } }, // Negative - first field
+        option_1: { votes_1: { value: "3" } },
+        option_2: { votes_2: { value: "2" } },
       };
 
       const payload1 = createMockSubmission({
@@ -231,14 +341,14 @@ describe(
       );
       assertStringIncludes(
         (response1.body.errors as Record<string, string>).option_0,
-        "perfect square numbers",
+        "whole number of votes",
       );
 
       // 2. Test error on middle field
       const stateValuesMiddleField = {
-        option_0: { credits_0: { value: "9" } }, // Is a perfect square
-        option_1: { credits_1: { value: "10" } }, // Not a perfect square - middle field
-        option_2: { credits_2: { value: "4" } }, // Is a perfect square
+        option_0: { votes_0: { value: "3" } },
+        option_1: { votes_1: { value: "two" } }, // Not a number - middle field
+        option_2: { votes_2: { value: "2" } },
       };
 
       const payload2 = createMockSubmission({
@@ -257,14 +367,14 @@ describe(
       );
       assertStringIncludes(
         (response2.body.errors as Record<string, string>).option_1,
-        "perfect square numbers",
+        "whole number of votes",
       );
 
       // 3. Test error on last field
       const stateValuesLastField = {
-        option_0: { credits_0: { value: "4" } }, // Is a perfect square
-        option_1: { credits_1: { value: "9" } }, // Is a perfect square
-        option_2: { credits_2: { value: "7" } }, // Not a perfect square - last field
+        option_0: { votes_0: { value: "2" } },
+        option_1: { votes_1: { value: "3" } },
+        option_2: { votes_2: { value: "2.5" } }, // Not a whole number - last field
       };
 
       const payload3 = createMockSubmission({
@@ -283,7 +393,7 @@ describe(
       );
       assertStringIncludes(
         (response3.body.errors as Record<string, string>).option_2,
-        "perfect square numbers",
+        "whole number of votes",
       );
     });
 
@@ -301,8 +411,8 @@ describe(
 
       // Submit with too many credits
       const stateValues = {
-        option_0: { credits_0: { value: "4" } },
-        option_1: { credits_1: { value: "9" } }, // Total: 13 > 9
+        option_0: { votes_0: { value: "2" } },
+        option_1: { votes_1: { value: "3" } }, // Total: 4 + 9 = 13 credits > 9
       };
 
       const payload = createMockSubmission({
@@ -330,9 +440,9 @@ describe(
     it("successfully records valid votes", async () => {
       // Create valid vote submission
       const stateValues = {
-        option_0: { credits_0: { value: "4" } }, // 2 votes
-        option_1: { credits_1: { value: "9" } }, // 3 votes
-        option_2: { credits_2: { value: "0" } }, // 0 votes
+        option_0: { votes_0: { value: "2" } }, // 4 credits
+        option_1: { votes_1: { value: "3" } }, // 9 credits
+        option_2: { votes_2: { value: "0" } }, // 0 credits
       };
 
       const payload = createMockSubmission({ stateValues, voteId: createdVoteId });
@@ -364,7 +474,7 @@ describe(
 
         assertEquals(userResponses.length, 3);
 
-        // Check each option has the correct credits
+        // Check each option has the correct credits (votes squared)
         const option0Response = userResponses.find((r) => r.optionIndex === 0);
         const option1Response = userResponses.find((r) => r.optionIndex === 1);
         const option2Response = userResponses.find((r) => r.optionIndex === 2);
@@ -378,6 +488,74 @@ describe(
       }
     });
 
+    it("records the ballot of each question with its own credits", async () => {
+      const questionsVote = await votesService.createVote({
+        workspaceId: workspaceId,
+        channelId: mockChannelId,
+        creatorId: mockUserId,
+        title: "Offsite",
+        options: ["Lisbon", "Berlin"],
+        creditsPerUser: 100,
+        questions: [
+          { title: "Where?", options: ["Lisbon", "Berlin"], creditsPerUser: 100 },
+          { title: "When?", options: ["May", "June"], creditsPerUser: 9 },
+        ],
+      });
+
+      // Mock fetch for checkAndAutoEndVote function
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = (
+        _url: string | URL | Request,
+        _init?: RequestInit,
+      ) => {
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ ok: true }),
+        } as Response);
+      };
+
+      try {
+        // 16 credits are too many for the second question only
+        const overLimit = await handleVoteSubmission(createMockSubmission({
+          voteId: questionsVote.id,
+          stateValues: {
+            q0_option_0: { votes_0: { value: "4" } },
+            q0_option_1: { votes_1: { value: "0" } },
+            q1_option_0: { votes_0: { value: "4" } },
+            q1_option_1: { votes_1: { value: "0" } },
+          },
+        }));
+
+        assertEquals(overLimit.body.response_action, "errors");
+        assert(
+          Object.keys(overLimit.body.errors ?? {}).every((blockId) => blockId.startsWith("q1_")),
+        );
+
+        const response = await handleVoteSubmission(createMockSubmission({
+          voteId: questionsVote.id,
+          stateValues: {
+            q0_option_0: { votes_0: { value: "4" } },
+            q0_option_1: { votes_1: { value: "0" } },
+            q1_option_0: { votes_0: { value: "0" } },
+            q1_option_1: { votes_1: { value: "3" } },
+          },
+        }));
+        assertEquals(response.body.response_action, "clear");
+
+        const { questions } = await votesService.getVoteResults(questionsVote.id);
+        assertEquals(questions[0].results[0].option, "Lisbon");
+        assertEquals(questions[0].results[0].totalCredits, 16);
+        assertEquals(questions[1].results[0].option, "June");
+        assertEquals(questions[1].results[0].totalCredits, 9);
+      } finally {
+        // Restore original fetch
+        globalThis.fetch = originalFetch;
+
+        await prisma.vote.delete({ where: { id: questionsVote.id } });
+      }
+    });
+
     it("handles errors gracefully", async () => {
       // Create a mock payload that will cause an error
       const payload = createMockSubmission({ voteId: createdVoteId });
@@ -391,10 +569,11 @@ describe(
       try {
         const response = await handleVoteSubmission(payload);
 
+        // Without the vote there's no ballot block for the error, so the modal is replaced
         assertEquals(response.status, 200);
-        assertEquals(response.body.response_action, "errors");
+        assertEquals(response.body.response_action, "update");
         assertStringIncludes(
-          JSON.stringify(response.body.errors),
+          JSON.stringify(response.body.view),
           "Error processing your vote",
         );
       } finally {
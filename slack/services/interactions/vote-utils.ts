@@ -1,81 +1,173 @@
-import { createVoteBlocks } from "@slack/services/blocks.ts";
-import { InteractionResponse } from "./types.ts";
+import { createResultsBlocks, createVoteBlocks, formatSlackDate } from "@slack/services/blocks.ts";
+import { InteractionResponse, SlackInteraction } from "./types.ts";
+import type { SlackModalView } from "./slack-block-types.ts";
 import { createErrorMessageBlocks, createInfoMessageBlocks } from "../blocks.ts";
 import logger from "@utils/logger.ts";
 import { Vote } from "generated/index.d.ts";
-import { votesService } from "@db/prisma.ts";
-import { NotFoundError } from "@db/errors.ts";
+import { votesService, workspaceService } from "@db/prisma.ts";
+import { NotFoundError, UnauthorizedError } from "@db/errors.ts";
 import { postToSlackApi, slackApiRequest } from "@utils/http-client.ts";
+import type { OptionResult } from "@mechanisms/index.ts";
+import { getResultsVisibility, type ProposalRecord, type QuestionResults } from "@db/votes.ts";
 
-// Define VoteResult type to make it shareable
-export interface VoteResult {
-  option: string;
-  totalCredits: number;
+// Results as returned by VotesService.getVoteResults
+export type VoteResult = OptionResult;
+
+/**
+ * Determines if a vote has reached its start time and is accepting ballots.
+ * Votes taking proposed options only accept ballots once their options are locked.
+ */
+export function hasVoteStarted(
+  vote: { startTime: Date; isNominating?: boolean },
+  now: Date = new Date(),
+): boolean {
+  return vote.startTime <= now && !vote.isNominating;
 }
 
 /**
- * Determines if all allowed voters have cast a vote
+ * Creates the message shown to users who try to vote before a vote opens
  */
-export function haveAllVotersVoted(
+export function createNotYetOpenMessage(vote: { startTime: Date; isNominating?: boolean }): string {
+  if (vote.isNominating) {
+    return "Options are still being proposed for this vote. You can vote once the creator locks them.";
+  }
+
+  return `This vote opens ${formatSlackDate(vote.startTime)}. You can vote once it is open.`;
+}
+
+/**
+ * Determines if a user may see the results of a vote. Everyone can see the results of
+ * an ended vote, and the vote's results visibility decides who sees them while it is open.
+ */
+export function canSeeResults(
+  vote: {
+    isEnded: boolean;
+    creatorId: string;
+    mechanism?: string | null;
+    resultsVisibility?: string;
+  },
+  userId: string,
+): boolean {
+  const resultsVisibility = getResultsVisibility(vote);
+  if (vote.isEnded || resultsVisibility === "everyone") {
+    return true;
+  }
+
+  // Votes without the setting show live results to their creator, as before it existed
+  return resultsVisibility !== "hidden" && vote.creatorId === userId;
+}
+
+/**
+ * Creates the message shown to users who can't see the results of an open vote yet
+ */
+export function createResultsNotAvailableMessage(vote: { title: string }): string {
+  return `Results for "${vote.title}" will be available once the vote has ended.`;
+}
+
+/**
+ * Checks that a user created the vote before letting them manage it
+ * @param action The action being attempted, used in the error message (e.g. "end")
+ * @throws UnauthorizedError if the user is not the creator of the vote
+ */
+export function validateVoteCreator(
+  vote: { creatorId: string },
+  userId: string,
+  action: string = "end",
+): void {
+  if (vote.creatorId !== userId) {
+    throw new UnauthorizedError(
+      `Only the creator of this vote (<@${vote.creatorId}>) can ${action} it. You don't have permission to perform this action.`,
+    );
+  }
+}
+
+/**
+ * Lists the allowed voters who haven't cast a vote yet
+ */
+export function getNonVoters(
   vote: { responses: { userId: string; credits: number }[] },
   allowedVoters: string[],
-): boolean {
+): string[] {
   // Get all unique user IDs that have voted
   const voterIds = new Set<string>();
 
   vote.responses.forEach((response) => {
-    if (response.credits > 0) {
-      // Only count users who gave credits
+    if (response.credits !== 0) {
+      // Only count users who gave credits, for or against an option
       voterIds.add(response.userId);
     }
   });
 
-  // Check if all allowed voters have now voted
-  return allowedVoters.every((voterId) => voterIds.has(voterId));
+  return allowedVoters.filter((voterId) => !voterIds.has(voterId));
+}
+
+/**
+ * Determines if all allowed voters have cast a vote
+ */
+export function haveAllVotersVoted(
+  vote: { responses: { userId: string; credits: number }[] },
+  allowedVoters: string[],
+): boolean {
+  return getNonVoters(vote, allowedVoters).length === 0;
 }
 
+// Number of conversations.history pages searched for a vote message (200 messages each)
+const MAX_HISTORY_PAGES = 10;
+
 /**
- * Finds the Slack message containing the vote in the channel history
+ * Finds the Slack message containing the vote in the channel history.
+ * Only needed for votes posted before their message timestamp was stored.
  */
 export async function findVoteMessageInChannel(
   vote: { id: string; channelId: string },
   workspaceToken: string,
 ): Promise<{ ts: string } | null> {
   try {
-    // Find the message containing this vote in the channel
-    const historyResponse = await slackApiRequest(
-      `https://slack.com/api/conversations.history?channel=${vote.channelId}&limit=20`,
-      {
-        headers: {
-          Authorization: `Bearer ${workspaceToken}`,
+    let cursor = "";
+
+    for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+      // Find the message containing this vote in the channel
+      const historyResponse = await slackApiRequest(
+        `https://slack.com/api/conversations.history?channel=${vote.channelId}&limit=200${
+          cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+        }`,
+        {
+          headers: {
+            Authorization: `Bearer ${workspaceToken}`,
+          },
         },
-      },
-    );
+      );
 
-    const history = await historyResponse.json();
-    if (!history.ok) {
-      logger.warn("Failed to get channel history", {
-        error: history.error,
-        voteId: vote.id,
-      });
-      return null;
-    }
+      const history = await historyResponse.json();
+      if (!history.ok) {
+        logger.warn("Failed to get channel history", {
+          error: history.error,
+          voteId: vote.id,
+        });
+        return null;
+      }
 
-    // Look for a message that contains the vote ID
-    const voteMessage = history.messages.find(
-      (msg: { text?: string; blocks?: unknown; ts: string }) =>
-        msg.text?.includes(vote.id) ||
-        (msg.blocks && JSON.stringify(msg.blocks).includes(vote.id)),
-    );
+      // Look for a message that contains the vote ID
+      const voteMessage = history.messages.find(
+        (msg: { text?: string; blocks?: unknown; ts: string }) =>
+          msg.text?.includes(vote.id) ||
+          (msg.blocks && JSON.stringify(msg.blocks).includes(vote.id)),
+      );
 
-    if (!voteMessage) {
-      logger.warn("Could not find vote message in channel history", {
-        voteId: vote.id,
-      });
-      return null;
+      if (voteMessage) {
+        return voteMessage;
+      }
+
+      cursor = history.response_metadata?.next_cursor || "";
+      if (!cursor) {
+        break;
+      }
     }
 
-    return voteMessage;
+    logger.warn("Could not find vote message in channel history", {
+      voteId: vote.id,
+    });
+    return null;
   } catch (error) {
     logger.error("Error finding vote message", error);
     return null;
@@ -86,7 +178,7 @@ export async function findVoteMessageInChannel(
  * Updates a Slack message with new content
  */
 export async function updateSlackMessage(
-  vote: Vote,
+  vote: Vote & { responses?: { userId: string; credits: number }[]; proposals?: ProposalRecord[] },
   channelId: string,
   messageTs: string,
   workspaceToken: string,
@@ -186,6 +278,113 @@ export function createErrorResponse(
   };
 }
 
+/**
+ * Sends a message back to the user who clicked a button. Button clicks ignore the
+ * response body, so the response_url is used when the payload has one.
+ */
+export async function respondToAction(
+  payload: SlackInteraction,
+  message: string,
+  title: string,
+  isError: boolean = false,
+): Promise<InteractionResponse> {
+  if (payload.response_url) {
+    await sendResponseUrlMessage(payload.response_url, message, { title, isError });
+    return { status: 200, body: {} };
+  }
+
+  return createErrorResponse(message, title);
+}
+
+/**
+ * Opens a modal from a button click
+ */
+export async function openModalFromAction(
+  payload: SlackInteraction,
+  workspaceId: string,
+  view: SlackModalView,
+): Promise<InteractionResponse> {
+  const workspaceToken = await workspaceService.getWorkspaceToken(workspaceId);
+
+  const response = await postToSlackApi(
+    "https://slack.com/api/views.open",
+    {
+      trigger_id: payload.trigger_id,
+      view,
+    },
+    {
+      Authorization: `Bearer ${workspaceToken}`,
+    },
+  );
+
+  const result = await response.json();
+  if (!result.ok) {
+    logger.error("Error opening modal", { error: result.error });
+    return createErrorResponse(`Error opening modal: ${result.error}`, "Modal Error");
+  }
+
+  return { status: 200, body: {} };
+}
+
+/**
+ * Turns an error from a button handler into the response for the user who clicked it
+ */
+export async function handleActionError(
+  payload: SlackInteraction,
+  error: unknown,
+  title: string,
+): Promise<InteractionResponse> {
+  if (error instanceof UnauthorizedError) {
+    return await respondToAction(payload, error.message, "Permission Denied", true);
+  }
+
+  if (error instanceof NotFoundError) {
+    return createErrorResponse(error.message, "Not Found");
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return createErrorResponse(errorMessage, title);
+}
+
+/**
+ * Resolves the merges chosen in a review modal, where each item is either kept as it is
+ * or merged into another item. Merges into an item that is itself merged go to the item
+ * at the end of the chain.
+ * @param decisions The decision for each item by item ID, e.g. "keep" or "merge_<id>"
+ * @param mergePrefix The prefix of the decisions that merge an item, e.g. "merge_"
+ * @returns The item each merged item goes into, or the ID of an item whose merges go
+ * round in a circle
+ */
+export function resolveMerges(
+  decisions: Map<string, string>,
+  mergePrefix: string,
+): { merges: Map<string, string>; circularId?: undefined } | {
+  merges?: undefined;
+  circularId: string;
+} {
+  const merges = new Map<string, string>();
+
+  for (const [itemId, decision] of decisions) {
+    if (!decision.startsWith(mergePrefix)) {
+      continue;
+    }
+
+    let targetId = decision.replace(mergePrefix, "");
+    const visited = new Set([itemId]);
+    while (decisions.get(targetId)?.startsWith(mergePrefix)) {
+      if (visited.has(targetId)) {
+        return { circularId: itemId };
+      }
+      visited.add(targetId);
+      targetId = decisions.get(targetId)!.replace(mergePrefix, "");
+    }
+
+    merges.set(itemId, targetId);
+  }
+
+  return { merges };
+}
+
 /**
  * Updates the original Slack message after a vote has ended
  */
@@ -231,15 +430,24 @@ export async function updateVoteMessage(
     // Get updated vote with current state
     const updatedVote = await votesService.getVoteById(vote.id);
 
-    const voteMessage = await findVoteMessageInChannel(vote, workspaceToken);
-    if (!voteMessage) {
-      return;
+    const messageChannel = updatedVote.messageChannel ?? vote.channelId;
+    let messageTs = updatedVote.messageTs;
+
+    // Older votes don't have their message stored, so search for it once and remember it
+    if (!messageTs) {
+      const voteMessage = await findVoteMessageInChannel(vote, workspaceToken);
+      if (!voteMessage) {
+        return;
+      }
+
+      messageTs = voteMessage.ts;
+      await votesService.setVoteMessage(vote.id, messageChannel, messageTs);
     }
 
     await updateSlackMessage(
       updatedVote,
-      vote.channelId,
-      voteMessage.ts,
+      messageChannel,
+      messageTs,
       workspaceToken,
     );
   } catch (error) {
@@ -251,6 +459,47 @@ export async function updateVoteMessage(
   }
 }
 
+// Delay before a scheduled vote message update runs, so a burst of ballots causes one chat.update
+const VOTE_MESSAGE_UPDATE_DELAY_MS = 3000;
+
+// Vote IDs with a message update waiting to run
+const pendingMessageUpdates = new Set<string>();
+
+/**
+ * Schedules an update of the vote message. Calls for the same vote made while
+ * an update is pending are merged into it, since the update reads the latest
+ * vote state when it runs.
+ */
+export function scheduleVoteMessageUpdate(
+  vote: {
+    id: string;
+    workspaceId: string;
+    channelId: string;
+    title: string;
+  },
+  delayMs: number = VOTE_MESSAGE_UPDATE_DELAY_MS,
+): void {
+  if (pendingMessageUpdates.has(vote.id)) {
+    return;
+  }
+
+  pendingMessageUpdates.add(vote.id);
+
+  const timerId = setTimeout(async () => {
+    pendingMessageUpdates.delete(vote.id);
+
+    try {
+      const workspaceToken = await workspaceService.getWorkspaceToken(vote.workspaceId);
+      await updateVoteMessage(vote, workspaceToken);
+    } catch (error) {
+      logger.error("Error running scheduled vote message update", error);
+    }
+  }, delayMs);
+
+  // Don't keep the process alive just for a pending message update
+  Deno.unrefTimer(timerId);
+}
+
 /**
  * Sends vote results via the Slack response_url
  */
@@ -261,14 +510,16 @@ export async function sendResultsViaResponseUrl(
   createResultsBlocks: (
     vote: Vote,
     results: VoteResult[],
+    questions?: QuestionResults[],
   ) => Record<string, unknown>[],
+  questions?: QuestionResults[],
 ): Promise<void> {
   try {
     // Use blocks for a richer display
     const message = {
       response_type: "ephemeral",
       text: `Results for "${vote.title}"`, // Fallback text
-      blocks: createResultsBlocks(vote, voteResults),
+      blocks: createResultsBlocks(vote, voteResults, questions),
       replace_original: false,
     };
 
@@ -285,3 +536,47 @@ export async function sendResultsViaResponseUrl(
     logger.error("Error sending to response_url:", error);
   }
 }
+
+/**
+ * Announces the results of an ended vote as a thread reply under the vote
+ * message, also sent to the channel if the vote was created with that setting.
+ * Votes without a stored message get the results as a new channel message.
+ */
+export async function announceVoteResults(
+  vote: { id: string },
+  workspaceToken: string,
+): Promise<void> {
+  try {
+    const { vote: endedVote, results, questions } = await votesService.getVoteResults(vote.id);
+
+    const threadOptions = endedVote.messageTs
+      ? {
+        thread_ts: endedVote.messageTs,
+        reply_broadcast: endedVote.broadcastResults,
+      }
+      : {};
+
+    const postResponse = await postToSlackApi(
+      "https://slack.com/api/chat.postMessage",
+      {
+        channel: endedVote.messageChannel ?? endedVote.channelId,
+        text: `Results for "${endedVote.title}"`, // Fallback text
+        blocks: createResultsBlocks(endedVote, results, questions),
+        ...threadOptions,
+      },
+      {
+        Authorization: `Bearer ${workspaceToken}`,
+      },
+    );
+
+    const postResult = await postResponse.json();
+    if (!postResult.ok) {
+      logger.warn("Failed to announce vote results", {
+        error: postResult.error,
+        voteId: vote.id,
+      });
+    }
+  } catch (error) {
+    logger.error("Error announcing vote results", error);
+  }
+}
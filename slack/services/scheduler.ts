@@ -0,0 +1,217 @@
+/**
+ * Background scheduler for time-based vote transitions.
+ *
+ * All state lives in the database, so the scheduler picks up where it left off
+ * after a restart, and closing a vote is a conditional update so that several
+ * app instances running the scheduler never close the same vote twice.
+ */
+import logger from "@utils/logger.ts";
+import { votesService, workspaceService } from "@db/prisma.ts";
+import { announceVoteResults, updateVoteMessage } from "./interactions/vote-utils.ts";
+import { sendVoteReminders } from "./interactions/vote-reminders.ts";
+import { announceRetroActionList } from "./interactions/retro.ts";
+import { parseDuration } from "@utils/duration.ts";
+
+// Default interval between scheduler runs (1 minute)
+const DEFAULT_INTERVAL_MS = 60000;
+
+// Default reminder offsets before a vote's end time
+const DEFAULT_REMINDER_OFFSETS = "24h,1h";
+
+let intervalId: number | null = null;
+let isRunning = false;
+
+// Get the scheduler interval from the environment, falling back to the default
+function getSchedulerInterval(): number {
+  const configured = parseInt(Deno.env.get("VOTE_SCHEDULER_INTERVAL_MS") || "", 10);
+  return Number.isNaN(configured) || configured <= 0 ? DEFAULT_INTERVAL_MS : configured;
+}
+
+// Get the reminder offsets (in milliseconds) from the environment, e.g. "24h,1h"
+export function getReminderOffsets(): number[] {
+  const configured = Deno.env.get("VOTE_REMINDER_OFFSETS") ?? DEFAULT_REMINDER_OFFSETS;
+  const offsets: number[] = [];
+
+  for (const part of configured.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const offset = parseDuration(part);
+    if (offset === null) {
+      logger.warn("Ignoring invalid vote reminder offset", { offset: part });
+      continue;
+    }
+    offsets.push(offset);
+  }
+
+  return offsets;
+}
+
+/**
+ * Reminds allowed voters who haven't voted when a vote's end time is within
+ * one of the reminder offsets. Votes that opened after a reminder time
+ * (e.g. a 2 hour vote and a 24h reminder) skip that reminder.
+ * @param now The reference time (defaults to the current time)
+ * @param offsets Reminder offsets before the end time in milliseconds
+ * @returns The number of reminders sent by this call
+ */
+export async function sendScheduledReminders(
+  now: Date = new Date(),
+  offsets: number[] = getReminderOffsets(),
+): Promise<number> {
+  let sentCount = 0;
+
+  for (const offset of offsets) {
+    const votes = await votesService.getVotesEndingBetween(
+      now,
+      new Date(now.getTime() + offset),
+    );
+
+    for (const vote of votes) {
+      const allowedVoters = vote.allowedVoters as string[] | null;
+      const reminderTime = vote.endTime!.getTime() - offset;
+      if (!allowedVoters || allowedVoters.length === 0 || reminderTime < vote.startTime.getTime()) {
+        continue;
+      }
+
+      try {
+        const workspaceToken = await workspaceService.getWorkspaceToken(
+          vote.workspaceId,
+        );
+
+        sentCount += await sendVoteReminders(
+          vote,
+          `auto_${Math.round(offset / 60000)}m`,
+          workspaceToken,
+        );
+      } catch (error) {
+        logger.error(`Error sending reminders for vote ${vote.id}`, error);
+      }
+    }
+  }
+
+  return sentCount;
+}
+
+/**
+ * Marks scheduled votes whose start time has arrived as started and switches
+ * their channel message to the active layout
+ * @param now The reference time (defaults to the current time)
+ * @returns The number of votes opened by this call
+ */
+export async function openScheduledVotes(now: Date = new Date()): Promise<number> {
+  const dueVotes = await votesService.getVotesDueToStart(now);
+  let openedCount = 0;
+
+  for (const vote of dueVotes) {
+    try {
+      // Another instance may have opened this vote since we queried it
+      const startedByUs = await votesService.markVoteStarted(vote.id);
+      if (!startedByUs) {
+        continue;
+      }
+
+      openedCount++;
+      logger.info("Vote opened because its start time has arrived", {
+        voteId: vote.id,
+      });
+
+      // Get workspace token for message updates
+      const workspaceToken = await workspaceService.getWorkspaceToken(
+        vote.workspaceId,
+      );
+
+      await updateVoteMessage(vote, workspaceToken);
+    } catch (error) {
+      logger.error(`Error opening scheduled vote ${vote.id}`, error);
+    }
+  }
+
+  return openedCount;
+}
+
+/**
+ * Ends all open votes whose end time has passed, refreshes their channel
+ * message and posts the results
+ * @param now The reference time (defaults to the current time)
+ * @returns The number of votes closed by this call
+ */
+export async function closeExpiredVotes(now: Date = new Date()): Promise<number> {
+  const expiredVotes = await votesService.getExpiredVotes(now);
+  let closedCount = 0;
+
+  for (const vote of expiredVotes) {
+    try {
+      // Another instance may have closed this vote since we queried it
+      const endedByUs = await votesService.endVoteIfOpen(vote.id);
+      if (!endedByUs) {
+        continue;
+      }
+
+      closedCount++;
+      logger.info("Vote ended automatically because its end time has passed", {
+        voteId: vote.id,
+      });
+
+      // Get workspace token for message updates
+      const workspaceToken = await workspaceService.getWorkspaceToken(
+        vote.workspaceId,
+      );
+
+      await updateVoteMessage(vote, workspaceToken);
+      await announceVoteResults(vote, workspaceToken);
+      await announceRetroActionList(vote, workspaceToken);
+    } catch (error) {
+      logger.error(`Error closing expired vote ${vote.id}`, error);
+    }
+  }
+
+  return closedCount;
+}
+
+/**
+ * Runs all scheduled tasks once. Skips the run if the previous one is still in progress.
+ * @param now The reference time (defaults to the current time)
+ */
+export async function runScheduledTasks(now: Date = new Date()): Promise<void> {
+  if (isRunning) {
+    logger.debug("Previous scheduler run still in progress, skipping");
+    return;
+  }
+
+  isRunning = true;
+  try {
+    await openScheduledVotes(now);
+    await closeExpiredVotes(now);
+    await sendScheduledReminders(now);
+  } catch (error) {
+    logger.error("Error running scheduled vote tasks", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Starts the vote scheduler. Runs once immediately to catch up on anything
+ * that became due while the app was down.
+ * @param intervalMs Interval between runs in milliseconds
+ */
+export function startVoteScheduler(intervalMs: number = getSchedulerInterval()): void {
+  if (intervalId !== null) {
+    return;
+  }
+
+  logger.info("Starting vote scheduler", { intervalMs });
+  intervalId = setInterval(() => runScheduledTasks(), intervalMs);
+  runScheduledTasks();
+}
+
+/**
+ * Stops the vote scheduler
+ */
+export function stopVoteScheduler(): void {
+  if (intervalId === null) {
+    return;
+  }
+
+  clearInterval(intervalId);
+  intervalId = null;
+  logger.info("Vote scheduler stopped");
+}
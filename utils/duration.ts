@@ -0,0 +1,56 @@
+// Utility for parsing human-friendly durations such as "30m", "2h", "3 days" or "in 1 week"
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Map of accepted unit spellings to their length in milliseconds
+const UNIT_MS: Record<string, number> = {
+  m: MINUTE_MS,
+  min: MINUTE_MS,
+  mins: MINUTE_MS,
+  minute: MINUTE_MS,
+  minutes: MINUTE_MS,
+  h: HOUR_MS,
+  hr: HOUR_MS,
+  hrs: HOUR_MS,
+  hour: HOUR_MS,
+  hours: HOUR_MS,
+  d: DAY_MS,
+  day: DAY_MS,
+  days: DAY_MS,
+  w: WEEK_MS,
+  wk: WEEK_MS,
+  week: WEEK_MS,
+  weeks: WEEK_MS,
+};
+
+/**
+ * Parses a duration like "2h", "3 days", "1d 12h" or "in 2 days"
+ * @param text The duration text
+ * @returns The duration in milliseconds, or null if the text is not a valid positive duration
+ */
+export function parseDuration(text: string): number | null {
+  const normalized = text.trim().toLowerCase().replace(/^in\s+/, "");
+  if (!normalized) {
+    return null;
+  }
+
+  const partPattern = /(\d+)\s*([a-z]+)\s*/y;
+  let total = 0;
+  let position = 0;
+
+  while (position < normalized.length) {
+    partPattern.lastIndex = position;
+    const match = partPattern.exec(normalized);
+    if (!match || !(match[2] in UNIT_MS)) {
+      return null;
+    }
+
+    total += parseInt(match[1], 10) * UNIT_MS[match[2]];
+    position = partPattern.lastIndex;
+  }
+
+  return total > 0 ? total : null;
+}
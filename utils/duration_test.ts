@@ -0,0 +1,30 @@
+import { assertEquals } from "@std/assert";
+import { parseDuration } from "./duration.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+Deno.test("parseDuration parses short unit suffixes", () => {
+  assertEquals(parseDuration("30m"), 30 * 60 * 1000);
+  assertEquals(parseDuration("2h"), 2 * HOUR_MS);
+  assertEquals(parseDuration("3d"), 3 * 24 * HOUR_MS);
+  assertEquals(parseDuration("1w"), 7 * 24 * HOUR_MS);
+});
+
+Deno.test("parseDuration parses natural language durations", () => {
+  assertEquals(parseDuration("in 2 days"), 2 * 24 * HOUR_MS);
+  assertEquals(parseDuration("1 hour"), HOUR_MS);
+  assertEquals(parseDuration(" In 45 Minutes "), 45 * 60 * 1000);
+});
+
+Deno.test("parseDuration combines multiple parts", () => {
+  assertEquals(parseDuration("1d 12h"), 36 * HOUR_MS);
+  assertEquals(parseDuration("1h30m"), 1.5 * HOUR_MS);
+});
+
+Deno.test("parseDuration rejects invalid durations", () => {
+  assertEquals(parseDuration(""), null);
+  assertEquals(parseDuration("tomorrow"), null);
+  assertEquals(parseDuration("2 fortnights"), null);
+  assertEquals(parseDuration("0h"), null);
+  assertEquals(parseDuration("2h and more"), null);
+});